@@ -0,0 +1,152 @@
+/**
+ * Base class for all errors raised while evaluating variables
+ * @class
+ * @property {string} path - The path of the variable being evaluated when the error happened
+ */
+export class UserVarsError extends Error {
+  path: string;
+
+  /**
+   * Creates a new UserVarsError
+   * @param {string} message - Description of the error
+   * @param {string} path    - The path of the variable being evaluated
+   */
+  constructor(message: string, path: string) {
+    super(message);
+
+    this.name = "UserVarsError";
+    this.path = path;
+  }
+}
+
+/**
+ * A variable depends on itself, directly or through other variables
+ * @class
+ * @property {string[]} chain - The paths that were being evaluated when the loop was found, ending with the repeated path
+ */
+export class CircularDependencyError extends UserVarsError {
+  chain: string[];
+
+  /**
+   * Creates a new CircularDependencyError
+   * @param {string}   path  - The path that was reached twice
+   * @param {string[]} chain - The paths being evaluated, ending with path
+   */
+  constructor(path: string, chain: string[]) {
+    super(`Circular dependency: ${chain.join(" -> ")}`, path);
+
+    this.name = "CircularDependencyError";
+    this.chain = chain;
+  }
+}
+
+/**
+ * A reference points to a variable that doesn't exist
+ * @class
+ * @property {string} reference - The normalized path that couldn't be found
+ */
+export class MissingReferenceError extends UserVarsError {
+  reference: string;
+
+  /**
+   * Creates a new MissingReferenceError
+   * @param {string} path      - The path of the variable containing the reference, or "" outside of one, like in render
+   * @param {string} reference - The normalized path that couldn't be found
+   */
+  constructor(path: string, reference: string) {
+    super(
+      path
+        ? `Missing reference to ${reference} (${path})`
+        : `Missing reference to ${reference}`,
+      path
+    );
+
+    this.name = "MissingReferenceError";
+    this.reference = reference;
+  }
+}
+
+/**
+ * A value resolved to a type that can't be used where it was referenced
+ * @class
+ */
+export class TypeMismatchError extends UserVarsError {
+  /**
+   * Creates a new TypeMismatchError
+   * @param {string} message - Description of the mismatch
+   * @param {string} path    - The path of the variable being evaluated
+   */
+  constructor(message: string, path: string) {
+    super(message, path);
+
+    this.name = "TypeMismatchError";
+  }
+}
+
+/**
+ * A value doesn't meet the constraints of its variable
+ * @class
+ * @property {string} constraint - The constraint that failed, "min", "max", "pattern", or "values"
+ */
+export class ConstraintError extends UserVarsError {
+  constraint: string;
+
+  /**
+   * Creates a new ConstraintError
+   * @param {string} message    - Description of the failure
+   * @param {string} path       - The path of the variable being evaluated
+   * @param {string} constraint - The constraint that failed
+   */
+  constructor(message: string, path: string, constraint: string) {
+    super(message, path);
+
+    this.name = "ConstraintError";
+    this.constraint = constraint;
+  }
+}
+
+/**
+ * An expression couldn't be parsed or evaluated
+ * @class
+ * @property {string} expression - The expression that failed
+ * @property {Error}  cause      - The error thrown by the expression parser
+ */
+export class ExpressionError extends UserVarsError {
+  expression: string;
+  cause: Error;
+
+  /**
+   * Creates a new ExpressionError
+   * @param {string} path       - The path of the variable being evaluated
+   * @param {string} expression - The expression that failed
+   * @param {Error}  cause      - The error thrown by the expression parser
+   */
+  constructor(path: string, expression: string, cause: Error) {
+    super(`${cause.message} in expression "${expression}" (${path})`, path);
+
+    this.name = "ExpressionError";
+    this.expression = expression;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Subscribers or change listeners threw while being notified of a change, which was still made
+ * Not a UserVarsError, since it isn't raised while evaluating a variable
+ * @class
+ * @property {unknown[]} errors - The errors thrown, in the order the callbacks were called
+ */
+export class CallbackError extends Error {
+  errors: unknown[];
+
+  /**
+   * Creates a new CallbackError
+   * @param {unknown[]} errors - The errors thrown by the callbacks
+   */
+  constructor(errors: unknown[]) {
+    super(`${errors.length} change callback(s) threw`);
+
+    this.name = "CallbackError";
+    this.errors = errors;
+  }
+}
@@ -1 +1,3 @@
-export * from "./user-vars";
\ No newline at end of file
+export * from "./user-vars";
+export * from "./errors";
+export * from "./templates";
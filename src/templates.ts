@@ -0,0 +1,289 @@
+/**
+ * Placeholder found in a template
+ */
+export interface TemplateToken {
+  path: string;
+  fallback?: string; // from `?? "fallback"`, used if path doesn't exist
+  join?: string; // from `| join(", ")`, used to join lists
+  start: number; // index of the opening delimiter
+  end: number; // index after the closing delimiter
+  pathStart: number;
+  pathEnd: number;
+}
+
+/**
+ * Placeholder that couldn't be parsed, which is kept in the text when parsing leniently
+ */
+export interface MalformedPlaceholder {
+  text: string; // as written, up to its closing delimiter or the end of the template
+  start: number; // index of the opening delimiter
+  error: string; // why it couldn't be parsed
+}
+
+/**
+ * Template split into literal text and placeholders
+ * text always has one more item than tokens, and they alternate starting with text
+ */
+export interface ParsedTemplate {
+  text: string[];
+  tokens: TemplateToken[];
+  malformed: MalformedPlaceholder[]; // always empty unless parsing leniently
+}
+
+/**
+ * Options for parseTemplate
+ */
+export interface ParseTemplateOptions {
+  lenient?: boolean; // keep malformed placeholders as text instead of throwing
+}
+
+/**
+ * Delimiters around placeholders
+ */
+export interface TemplateSyntax {
+  open: string;
+  close: string;
+}
+
+/**
+ * Named delimiter styles accepted anywhere a TemplateSyntax is
+ */
+export const syntaxes: { [name: string]: TemplateSyntax } = {
+  mustache: { open: "{{", close: "}}" }, // {{path}}
+  dollar: { open: "${", close: "}" }, // ${path}
+  percent: { open: "%", close: "%" } // %path%
+};
+
+/**
+ * Paths placeholders can point to: names, "." between them, "../" or "./" before them, indexes like "[2]", "*", and "$"
+ */
+const pathPattern = /^(\.\.?\/)*[\w$*]+(\.[\w$*]+|\[\d+\])*$/;
+
+/**
+ * Reads the path at the start of a placeholder, up to whitespace, a filter, a fallback, or the closing delimiter
+ * @param {string} source - The text being parsed
+ * @param {number} start  - The index after the opening delimiter
+ * @param {string} close  - The closing delimiter
+ * @returns {string} The path, which is empty if there isn't one
+ */
+function readPath(source: string, start: number, close: string): string {
+  let i = start;
+
+  while (i < source.length && /\s/.test(source[i])) i++;
+
+  const pathStart = i;
+
+  while (
+    i < source.length &&
+    !/[\s|?]/.test(source[i]) &&
+    !source.startsWith(close, i)
+  ) {
+    i++;
+  }
+
+  return source.slice(pathStart, i);
+}
+
+/**
+ * Reads a quoted string starting at index
+ * @param {string} source - The text being parsed
+ * @param {number} index  - The index of the opening quote
+ * @returns {{value: string, end: number}} The unescaped string and the index after the closing quote
+ */
+function readString(
+  source: string,
+  index: number
+): { value: string; end: number } {
+  const quote = source[index];
+  let value = "";
+
+  for (let i = index + 1; i < source.length; i++) {
+    if (source[i] === "\\" && i + 1 < source.length) {
+      value += source[++i];
+    } else if (source[i] === quote) {
+      return { value, end: i + 1 };
+    } else {
+      value += source[i];
+    }
+  }
+
+  throw new SyntaxError(`Unterminated string at ${index}`);
+}
+
+/**
+ * Parses the inside of a placeholder, like `path | join(", ") ?? "none"`
+ * @param {string} source - The text being parsed
+ * @param {number} start  - The index after the opening delimiter
+ * @param {number} end    - The index of the closing delimiter
+ * @returns {TemplateToken} The token, with start and end left at 0
+ */
+function parsePlaceholder(
+  source: string,
+  start: number,
+  end: number
+): TemplateToken {
+  const skipSpace = (i: number) => {
+    while (i < end && /\s/.test(source[i])) i++;
+    return i;
+  };
+
+  let i = skipSpace(start);
+  const pathStart = i;
+
+  while (i < end && !/[\s|?]/.test(source[i])) i++;
+
+  const token: TemplateToken = {
+    path: source.slice(pathStart, i),
+    start: 0,
+    end: 0,
+    pathStart,
+    pathEnd: i
+  };
+
+  if (!token.path) {
+    throw new SyntaxError(`Empty placeholder at ${start}`);
+  }
+
+  if (!pathPattern.test(token.path)) {
+    throw new SyntaxError(`Invalid path "${token.path}" at ${pathStart}`);
+  }
+
+  i = skipSpace(i);
+
+  while (i < end) {
+    if (source.startsWith("??", i)) {
+      i = skipSpace(i + 2);
+
+      if (!["'", '"'].includes(source[i])) {
+        throw new SyntaxError(`Expected quoted fallback at ${i}`);
+      }
+
+      const read = readString(source, i);
+      token.fallback = read.value;
+      i = read.end;
+    } else if (source[i] === "|") {
+      i = skipSpace(i + 1);
+
+      if (!source.startsWith("join(", i)) {
+        throw new SyntaxError(`Unknown filter at ${i}`);
+      }
+
+      i = skipSpace(i + 5);
+
+      if (!["'", '"'].includes(source[i])) {
+        throw new SyntaxError(`Expected quoted separator at ${i}`);
+      }
+
+      const read = readString(source, i);
+      i = skipSpace(read.end);
+
+      if (source[i] !== ")") {
+        throw new SyntaxError(`Expected ")" at ${i}`);
+      }
+
+      token.join = read.value;
+      i++;
+    } else {
+      throw new SyntaxError(`Unexpected "${source[i]}" at ${i}`);
+    }
+
+    i = skipSpace(i);
+  }
+
+  return token;
+}
+
+/**
+ * Finds the closing delimiter of a placeholder, skipping quoted strings
+ * @param {string} source - The text being parsed
+ * @param {number} index  - The index after the opening delimiter
+ * @param {string} close  - The closing delimiter
+ * @returns {number} The index of the closing delimiter
+ */
+function findClose(source: string, index: number, close: string): number {
+  for (let i = index; i < source.length; i++) {
+    if (source[i] === "'" || source[i] === '"') {
+      i = readString(source, i).end - 1;
+    } else if (source.startsWith(close, i)) {
+      return i;
+    }
+  }
+
+  throw new SyntaxError(`Unclosed placeholder at ${index}`);
+}
+
+/**
+ * Splits a template into literal text and placeholders. A backslash before the opening delimiter escapes it
+ * @param {string}                  source                  - The template
+ * @param {TemplateSyntax | string} [syntax="mustache"]     - The delimiters around placeholders, or the name of one of syntaxes
+ * @param {ParseTemplateOptions}    [options]               - Parse options
+ * @param {boolean}                 [options.lenient=false] - Whether malformed placeholders should be kept as text instead of throwing a SyntaxError, and delimiters not followed by a path treated as text
+ * @returns {ParsedTemplate} The parsed template
+ */
+export function parseTemplate(
+  source: string,
+  syntax: TemplateSyntax | string = "mustache",
+  { lenient = false }: ParseTemplateOptions = {}
+): ParsedTemplate {
+  if (typeof syntax === "string") {
+    if (!syntaxes[syntax]) {
+      throw new TypeError(`Unknown template syntax "${syntax}"`);
+    }
+
+    syntax = syntaxes[syntax];
+  }
+
+  const { open, close } = syntax;
+  const output: ParsedTemplate = { text: [""], tokens: [], malformed: [] };
+  let i = 0;
+
+  while (i < source.length) {
+    if (source[i] === "\\" && source.startsWith(open, i + 1)) {
+      output.text[output.text.length - 1] += open;
+      i += open.length + 1;
+    } else if (source.startsWith(open, i)) {
+      const path = readPath(source, i + open.length, close);
+      let token: TemplateToken;
+
+      // text that doesn't start with a path isn't a placeholder, like "50% off, %name%" with percent syntax
+      if (lenient && path && !pathPattern.test(path)) {
+        output.text[output.text.length - 1] += open;
+        i += open.length;
+        continue;
+      }
+
+      try {
+        const end = findClose(source, i + open.length, close);
+
+        token = parsePlaceholder(source, i + open.length, end);
+        token.end = end + close.length;
+      } catch (err) {
+        if (!lenient || !(err instanceof SyntaxError)) throw err;
+
+        const end = source.indexOf(close, i + open.length);
+
+        output.malformed.push({
+          text: source.slice(i, end < 0 ? source.length : end + close.length),
+          start: i,
+          error: err.message
+        });
+
+        // only the opening delimiter is kept, so placeholders after it are still found
+        output.text[output.text.length - 1] += open;
+        i += open.length;
+        continue;
+      }
+
+      token.start = i;
+
+      output.tokens.push(token);
+      output.text.push("");
+      i = token.end;
+    } else {
+      output.text[output.text.length - 1] += source[i];
+      i++;
+    }
+  }
+
+  return output;
+}
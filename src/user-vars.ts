@@ -1,9 +1,30 @@
-import { get } from "lodash";
-import { Parser } from "expr-eval";
-
-type Comparison = string; // "eq", "lt", "gt", or "in"
+import { cloneDeep, get, isEqual } from "lodash";
+import { Expression, Parser } from "expr-eval";
+import {
+  CallbackError,
+  CircularDependencyError,
+  ConstraintError,
+  ExpressionError,
+  MissingReferenceError,
+  TypeMismatchError,
+  UserVarsError
+} from "./errors";
+import { parseTemplate, TemplateSyntax, TemplateToken } from "./templates";
+
+type Comparison = string; // a key of comparisons, like "eq", "between", or "containsI"
 type Priority = string; // "first" or "last"
-type Literal = string | string[];
+type Literal = JsonValue; // only string or string[] unless the typed option is set
+
+/**
+ * Any value a variable can resolve to with the typed option
+ */
+export type JsonValue =
+  | string
+  | number
+  | boolean
+  | null
+  | JsonValue[]
+  | { [key: string]: JsonValue };
 
 /**
  * Generic variable data
@@ -11,8 +32,20 @@ type Literal = string | string[];
 export interface Var {
   name: string;
   scope: string;
-  value: Value | Value[] | TableRow[];
-  varType: string; //"basic", "list", "table", or "expression"
+  value: Value | Value[] | TableRow[] | ObjectValue;
+  varType: string; //"basic", "list", "table", "expression", "template", "listOp", "object", or "aggregate"
+  valueType?: string; // "string", "number", "integer", "boolean", "enum", or "list<...>" of one of them
+  constraints?: ValueConstraints;
+}
+
+/**
+ * Limits on the value of a variable with a valueType, applied to each item of lists
+ */
+export interface ValueConstraints {
+  min?: number; // smallest number, or shortest string
+  max?: number; // largest number, or longest string
+  pattern?: string; // regular expression strings must match, like "^[a-z]+$" or "/^[a-z]+$/i"
+  values?: JsonValue[]; // allowed values, required by "enum"
 }
 
 /**
@@ -31,6 +64,7 @@ type Value = string | TypedValue;
 export interface TypedValue {
   value: string;
   type: string; // "literal", "reference", or "expression"
+  valueType?: string; // literals only, "string", "number", "boolean", "null", or "json", used with the typed option
 }
 
 /**
@@ -69,15 +103,55 @@ export interface ListVar extends Var {
   varType: string;
 }
 
+/**
+ * Should evaluate to an object with the same keys
+ * varType is "object"
+ */
+export interface ObjectVar extends Var {
+  value: ObjectValue;
+  varType: string;
+}
+
+/**
+ * Properties of an object variable, Values are told apart from nested objects by their type field
+ */
+export interface ObjectValue {
+  [key: string]: Value | ObjectValue;
+}
+
 /**
  * Condition for table rows, the row is output if all of these are true
  */
 export interface Condition {
   val1: Value;
   comparison: Comparison;
-  val2: Value;
+  val2?: Value; // not used by "empty" and "notEmpty"
+}
+
+/**
+ * Group of conditions, with exactly one of all, any, or not
+ */
+export interface ConditionGroup {
+  all?: ConditionNode[]; // true if every condition is true
+  any?: ConditionNode[]; // true if at least one condition is true
+  not?: ConditionNode; // true if the condition is false
+}
+
+/**
+ * Condition that passes if an expression evaluates to a truthy value
+ */
+export interface ExpressionCondition {
+  expression: string;
+  vars: {
+    [name: string]: Value;
+  };
 }
 
+/**
+ * Anything allowed in TableRow conditions
+ */
+export type ConditionNode = Condition | ConditionGroup | ExpressionCondition;
+
 /**
  * Condition returned from full table output
  */
@@ -87,13 +161,42 @@ export interface ConditionData {
   comparison: Comparison;
   val2: Literal;
   val2Path: string;
+  passed: boolean;
+}
+
+/**
+ * Condition group returned from full table output, with the evaluated conditions in place of the originals
+ */
+export interface ConditionGroupData {
+  all?: ConditionNodeData[];
+  any?: ConditionNodeData[];
+  not?: ConditionNodeData;
+  passed: boolean;
+}
+
+/**
+ * Expression condition returned from full table output
+ */
+export interface ExpressionConditionData {
+  expression: string;
+  vars: ExpressionInput; // the resolved inputs used by the expression
+  varPaths: { [name: string]: string }; // the paths referenced inputs came from
+  passed: boolean;
 }
 
+/**
+ * Anything returned in TableRowData conditions
+ */
+export type ConditionNodeData =
+  | ConditionData
+  | ConditionGroupData
+  | ExpressionConditionData;
+
 /**
  * Row for table
  */
 export interface TableRow {
-  conditions: Condition[];
+  conditions: ConditionNode[];
   output: Value;
 }
 
@@ -101,7 +204,7 @@ export interface TableRow {
  * Table row returned from full table output
  */
 export interface TableRowData {
-  conditions: ConditionData[];
+  conditions: ConditionNodeData[];
   output: Literal;
   outputPath: string;
 }
@@ -130,6 +233,68 @@ export interface TableData {
   priority: string; // "first" or "last"
 }
 
+/**
+ * Transforms a source list with a pipeline of steps
+ * varType is "listOp"
+ */
+export interface ListOpVar extends Var {
+  value: Value; // the source list
+  steps: ListStep[];
+  varType: string;
+}
+
+/**
+ * Step of a list operation, $item and $index reference the current item in its Values
+ */
+export interface ListStep {
+  op: string; // "filter", "map", "sort", "unique", "slice", "reverse", "flatten", "join", or "count"
+  condition?: ConditionNode; // filter, items are kept if it passes
+  expression?: string; // map, evaluated for each item with vars
+  vars?: { [name: string]: Value }; // map with expression
+  template?: string; // map, rendered for each item instead of an expression
+  order?: string; // sort, "asc" (default) or "desc"
+  numeric?: boolean; // sort, whether items are compared as numbers instead of text
+  start?: number; // slice, like Array.slice
+  end?: number; // slice, like Array.slice
+  separator?: string; // join, defaults to ", "
+}
+
+/**
+ * Evaluated list operation returned from full output
+ */
+export interface ListOpData {
+  source: Literal;
+  sourcePath: string;
+  steps: ListStepData[];
+  output: Literal;
+}
+
+/**
+ * Step of a list operation returned from full output
+ */
+export interface ListStepData {
+  op: string;
+  output: Literal; // the list after this step, or the result of join and count
+  conditions?: ConditionNodeData[]; // filter, the condition for each item
+}
+
+/**
+ * Combines the members of its sources into one value, lists are combined item by item
+ * varType is "aggregate"
+ */
+export interface AggregateVar extends Var {
+  op: string; // "sum", "avg", "min", "max", "count", "product", "median", or "concat"
+  value: Value | Value[]; // the sources, a reference like "items.*" stands for every variable directly in a scope
+  nonNumeric?: string; // numeric ops, "skip" (default) leaves out members that aren't numbers, "error" fails
+  separator?: string; // concat, defaults to ""
+  varType: string;
+}
+
+/**
+ * Anything getVar returns with the full option
+ */
+export type FullData = TableData | ListOpData;
+
 /**
  * A mathematical expression to be evaluated
  * varType is "expression"
@@ -144,10 +309,19 @@ export interface ExpressionVar extends Var {
 }
 
 /**
- * Mapping of Vars under the same scope
+ * String with {{path}} placeholders, which are replaced with the values of the variables at those paths
+ * varType is "template"
+ */
+export interface TemplateVar extends Var {
+  value: string;
+  varType: string;
+}
+
+/**
+ * Mapping of Vars and nested Scopes under the same scope
  */
 export interface Scope {
-  [name: string]: Var;
+  [name: string]: Var | Scope;
 }
 
 /**
@@ -157,6 +331,20 @@ export interface Vars {
   [name: string]: Var | Scope;
 }
 
+/**
+ * Settings for a scope, set with setScope
+ */
+export interface ScopeOptions {
+  extends?: string | string[]; // scopes whose variables are inherited, in lookup order
+}
+
+/**
+ * Mapping of scope path to its settings
+ */
+export interface Scopes {
+  [scope: string]: ScopeOptions;
+}
+
 /**
  * Mapping of variable path to its dependents
  */
@@ -165,286 +353,3133 @@ export interface Deps {
 }
 
 export interface Cache {
-  [path: string]: Literal | TableData;
+  [path: string]: Literal | FullData;
 }
 
 export interface Changed {
   [path: string]: boolean;
 }
 
-export interface AllVars {
-  [name: string]: Literal | TableData | OutputScope;
+/**
+ * Result of updateVar and upsertVar
+ */
+export interface UpdateResult {
+  path: string;
+  status: string; // "created", "replaced", or "rejected"
+  reason?: string; // "invalidName", "invalidScope", "invalidVar", "circularDependency", "notFound", "scopeConflict", or "varConflict"
+  diagnostics?: Diagnostic[];
+  cycle?: string[];
 }
 
-export interface AllVarsGlobalNotRoot extends AllVars {
-  [name: string]: OutputScope;
+/**
+ * Serialized UserVars instance, produced by toJSON and read by fromJSON
+ */
+export interface Snapshot {
+  version: number;
+  vars: Vars;
+  scopes?: Scopes;
+  cache?: Cache;
+  deps?: SnapshotDeps;
 }
 
-export interface OutputScope {
-  [name: string]: Literal | TableData;
+/**
+ * Mapping of variable path to its dependents, with arrays in place of Sets
+ */
+export interface SnapshotDeps {
+  [key: string]: string[];
 }
 
-export interface AllVarsFlat {
-  [name: string]: Literal | TableData;
+export interface SnapshotOptions {
+  cache?: boolean;
+  deps?: boolean;
 }
 
 /**
- * Checks whether obj is a Var
- * @param obj Object to assert
- * @returns {boolean} Whether obj is a Var
+ * Reference used where a particular kind of value is expected, found by findSlots
  */
-function isVar(obj: Var | Scope | null): obj is Var {
-  if (!obj) return false;
-  return "varType" in obj && typeof obj.varType === "string";
+interface TypeSlot {
+  pointer: string; // JSON pointer to the reference
+  reference: string;
+  expects: string; // a key of slotTypes
 }
 
-function parseLtGt(arg1: Literal, arg2: Literal) {
-  let num1: number;
-  let num2: number;
+/**
+ * Problem found while validating a Var
+ */
+export interface Diagnostic {
+  path: string; // path to the variable
+  pointer: string; // JSON pointer into the variable, e.g. "/value/2/conditions/0/comparison"
+  code: string;
+  message: string;
+  severity: string; // "error" or "warning"
+}
 
-  if (typeof arg1 === "string") {
-    num1 = parseFloat(arg1);
-  } else {
-    num1 = arg1.length;
-  }
+/**
+ * Options for creating a UserVars object
+ */
+export interface UserVarsOptions {
+  rejectCycles?: boolean; // whether setVar, updateVar, and upsertVar should reject variables that would close a dependency loop
+  expressions?: ExpressionOptions;
+  typed?: boolean; // whether literals keep their valueType and expressions their native result, instead of becoming strings
+  onCallbackError?: (error: unknown) => void; // called with errors thrown by subscribers and change listeners, instead of throwing a CallbackError
+}
 
-  if (typeof arg2 === "string") {
-    num2 = parseFloat(arg2);
-  } else {
-    num2 = arg2.length;
-  }
+/**
+ * Configuration of the parser used for every expression
+ */
+export interface ExpressionOptions {
+  functions?: { [name: string]: (...args: never[]) => unknown }; // host functions that can be called from expressions
+  constants?: { [name: string]: number | string | boolean };
+  operators?: { [operator: string]: boolean }; // expr-eval operators to enable or disable, like "assignment", "in", or "conditional"
+  scopes?: { [scope: string]: ExpressionPolicy }; // limits for expressions in each scope and the scopes nested in it
+}
 
-  return { num1, num2 };
+/**
+ * Allow-lists for the expressions in a scope, anything left out of a list can't be used
+ */
+export interface ExpressionPolicy {
+  functions?: string[]; // built in functions, like "max" or "sqrt", and host functions
+  constants?: string[]; // built in constants, like "PI", and host constants. "true" and "false" are always allowed
+  operators?: string[]; // expr-eval operator groups, like "add", "comparison", "logical", or "conditional"
 }
 
 /**
- * Normalizes a path relative to its scope.
- * Only takes into account "../" and the first and last period delimited values
- * Usually not needed if scope is global.
- * @param {string} path             - The path to normalize
- * @param {string} [scope="global"] - The scope the path is relative to
- * @returns {string} The normalized path
+ * Mapping of variable path to the paths it depends on
  */
-export function normalizePath(path: string, scope: string = "global"): string {
-  let up = false;
+export interface DependencyGraph {
+  [path: string]: string[];
+}
 
-  if (path.startsWith("../") && scope !== "global") {
-    up = true;
-    path = path.replace("../", "");
-  }
+export interface GraphOptions {
+  transitive?: boolean;
+}
 
-  if (path.startsWith("global.")) {
-    path = path.replace("global.", "");
-  }
+/**
+ * Change to a variable's resolved value, passed to subscribers and change listeners
+ */
+export interface ChangeEvent {
+  path: string;
+  oldValue: Literal | FullData | undefined; // undefined if the variable didn't exist
+  newValue: Literal | FullData | undefined; // undefined if the variable was deleted
+  full: boolean; // whether the values are full TableData or ListOpData
+}
 
-  // remove multiple periods in a row
-  path = path.replace(/\.+/g, ".");
+export interface SubscribeOptions {
+  full?: boolean;
+}
 
-  let split = path.split(".");
-  const multipleParts = split.length > 1;
+/**
+ * Callback registered with subscribe
+ */
+export type Subscriber = (event: ChangeEvent) => void;
 
-  split = [split[0], split[split.length - 1]];
+/**
+ * Listener registered with on("change"), called once per change with every affected variable
+ */
+export type ChangeListener = (events: ChangeEvent[]) => void;
 
-  if ((scope === "global" || up) && !multipleParts) {
-    return split[0];
-  }
+/**
+ * Options for render
+ */
+export interface RenderOptions {
+  scope?: string;
+  syntax?: TemplateSyntax | string; // delimiters, or "mustache", "dollar", or "percent"
+  strict?: boolean;
+}
 
-  if (!multipleParts) {
-    return `${scope}.${split[0]}`;
-  }
+/**
+ * Output of render
+ */
+export interface RenderResult {
+  text: string;
+  unresolved: string[]; // paths of placeholders that couldn't be resolved, and malformed placeholders, as written
+}
 
-  return split.join(".");
+export interface RenameOptions {
+  rewriteReferences?: boolean;
 }
 
 /**
- * Gets the path to a variable from its scope and name
- * @param {string} name             - The name of the variable
- * @param {string} [scope="global"] - The scope of the variable
- * @returns {string} The path to the variable
+ * Options for getVar and getAllVars
  */
-function getPath(name: string, scope: string = "global"): string {
-  if (scope !== "global") {
-    // return to global
-    if (name.startsWith("../")) {
-      name = name.replace("../", "");
-      return name;
-    }
-
-    return `${scope}.${name}`;
-  } else {
-    return name;
-  }
+export interface GetOptions {
+  full?: boolean;
+  errors?: string; // "sentinel", "throw", or "result"
+  context?: JsonValue; // per call data read with $context, like $context.user.role
 }
 
-const comparisons = {
-  eq: (arg1: Literal, arg2: Literal) => {
-    if (typeof arg1 !== typeof arg2) {
-      return false;
-    }
+/**
+ * Successful evaluation from the "result" error mode
+ */
+export interface VarSuccess {
+  ok: true;
+  value: Literal | FullData;
+}
 
-    if (typeof arg1 === "string") {
-      return arg1 === arg2;
-    }
+/**
+ * Failed evaluation from the "result" error mode
+ */
+export interface VarFailure {
+  ok: false;
+  error: UserVarsError;
+}
 
-    // both are lists
-    return (
-      arg1
-        .filter((i) => !arg2.includes(i))
-        .concat((<string[]>arg2).filter((i) => !arg1.includes(i))).length === 0
-    );
-  },
-  lt: (arg1: Literal, arg2: Literal) => {
-    const { num1, num2 } = parseLtGt(arg1, arg2);
-    return num1 < num2;
-  },
-  gt: (arg1: Literal, arg2: Literal) => {
-    const { num1, num2 } = parseLtGt(arg1, arg2);
-    return num1 > num2;
-  },
-  in: (arg1: Literal, arg2: string[]) => {
-    if (typeof arg1 === "string") {
-      return arg2.includes(arg1);
-    }
+export type VarResult = VarSuccess | VarFailure;
 
-    return arg1.every((i) => arg2.includes(i));
-  }
-};
 /**
- * Creates a new UserVars object for holding user defined dynamic variables
- * @class
- * @property {Vars}     vars    - Variable mapping, {name: value}, scoped vars are nested into scope name
- * @property {Parser}   parser  - Parser for expressions
- * @property {Cache}    cache   - Resolved values of variables
- * @property {Deps}     deps    - Mapping from path to dependents
- * @property {Changed}  changed - Record of which variables need to be re-evaluated
+ * Mapping of paths to the literal values or whole Vars they're temporarily replaced with by evaluateWith
  */
-export class UserVars {
-  vars: Vars;
-  parser: Parser;
-  cache: Cache;
-  deps: Deps;
-  changed: Changed;
+export interface Overrides {
+  [path: string]: Literal | Var;
+}
 
-  /**
-   * Creates a new UserVars object for holding user defined dynamic variables
-   */
-  constructor() {
-    this.vars = {};
-    this.cache = {};
-    this.deps = {};
-    this.changed = {};
+export interface OverrideOptions {
+  full?: boolean;
+}
 
-    this.parser = new Parser();
-  }
+/**
+ * Output of evaluateWith
+ */
+export interface OverrideResult {
+  value: Literal | FullData;
+  influencedBy: string[]; // normalized paths of the overrides that were used while evaluating
+}
 
-  /**
-   * Adds the passed scope to the list. This is done automatically with addVar and the build methods
-   * @param {string}  scope     - Name of the scope to add to the list
-   * @param {boolean} [overwrite=true] - True if existing global variables with conflicting name should be overwritten
-   * @returns {boolean} True if scope was added or already existed
-   */
-  #addScope(scope: string, overwrite: boolean = false): boolean {
-    if (!this.vars[scope] || (overwrite && isVar(this.vars[scope]))) {
-      // there is nothing at this.vars[scope]
-      // or
-      // this.vars[scope] is a Var, not a Scope, and should be overwritten
-      this.vars[scope] = {};
+export interface ExplainOptions {
+  context?: JsonValue;
+}
 
-      return true;
-    }
+/**
+ * Step of evaluating a variable returned from explain, with the steps it took in the order they happened
+ */
+export interface ExplainStep {
+  kind: string; // "variable", "property", "reference", "local", "pattern", "expression", "row", "default", "condition", "flatten", "step", or "error"
+  path?: string; // the normalized path of variables, properties, references, and patterns
+  reference?: string; // the path as written, for references, locals, patterns, and flattened lists
+  detail?: string; // varType of variables, owner of properties, source of expressions, index of rows, comparison or group of conditions, op of list steps, and error name
+  input?: ExpressionInput; // expressions, the values passed to expr-eval
+  cached?: boolean; // variables, whether getVar would have returned the value from the cache instead of evaluating it
+  passed?: boolean; // rows and conditions
+  value?: Literal; // the result of the step, or the sentinel of errors
+  error?: string; // the message of the error reached by the step
+  steps: ExplainStep[];
+}
 
-    if (this.vars[scope] && !overwrite && !isVar(this.vars[scope])) {
-      // scope exists as scope
-      return true;
-    }
+/**
+ * Values passed to an expression, lists are converted to arrays of numbers unless the typed option is set
+ */
+export interface ExpressionInput {
+  [name: string]: Literal | number[];
+}
 
-    // there is a global variable with the same name as scope, but cannot overwrite it
-    return false;
-  }
+/**
+ * State shared by everything evaluated for a single getVar call
+ */
+interface EvalState {
+  strict: boolean; // whether errors are thrown instead of returned as sentinel strings
+  failed: Set<string>; // paths whose values contain sentinels
+  item?: { value: Literal; index: number }; // the item a list operation step is evaluating, for $item and $index
+  context?: JsonValue; // the context getVar was called with
+  contextReads: { [path: string]: ContextReads }; // what each evaluated path read from the context
+  trace?: ExplainStep; // the step new steps are added to, only set by explain
+}
 
-  /**
-   * Adds the passed variable to Vars, and the evaluated value to vars.
-   * This is done automatically with the build methods
-   * @param {Var}     value                  - Variable to add to the list
-   * @param {boolean} [forceOverwrite=false] - Whether scopes and global variables with the same names can overwrite eachother
-   * @returns {boolean} True if variable was set
-   */
-  setVar(value: Var, forceOverwrite: boolean = false): boolean {
-    const pattern = /^[A-Z\d_]+$/i;
-    const nameMatch = pattern.test(value.name);
-    const scopeMatch = pattern.test(value.scope);
+/**
+ * Mapping of properties read from the context, like "user.role" ("" for all of it), to the values read
+ */
+interface ContextReads {
+  [property: string]: Literal | undefined;
+}
 
-    if (!nameMatch) {
-      throw `Name must match pattern /^[A-Z\\d_]+$/i exactly (${value.scope}.${value.name})`;
-    }
+/**
+ * Value cached for the context values it read
+ */
+interface ContextEntry {
+  reads: ContextReads;
+  value: Literal | FullData;
+}
 
-    if (!scopeMatch) {
-      throw `Scope must match pattern /^[A-Z\\d_]+$/i exactly (${value.scope}.${value.name})`;
-    }
+export interface AllVars {
+  [name: string]: Literal | FullData | VarResult | OutputScope;
+}
 
-    // variable goes to root
-    if (value.scope === "global") {
-      if (!this.vars[value.name] || isVar(this.vars[value.name])) {
+export interface AllVarsGlobalNotRoot extends AllVars {
+  [name: string]: OutputScope;
+}
+
+export interface OutputScope {
+  [name: string]: Literal | FullData | VarResult | OutputScope;
+}
+
+export interface AllVarsFlat {
+  [name: string]: Literal | FullData | VarResult;
+}
+
+/**
+ * Checks whether obj is a Var
+ * @param obj Object to assert
+ * @returns {boolean} Whether obj is a Var
+ */
+function isVar(obj: Var | Scope | null): obj is Var {
+  if (!obj) return false;
+  return "varType" in obj && typeof obj.varType === "string";
+}
+
+/**
+ * Lowercases a Literal for case-insensitive comparisons
+ * @param {Literal} arg - The value to lowercase
+ * @returns {Literal} The lowercased value
+ */
+function lowerCase(arg: Literal): Literal {
+  if (typeof arg === "string") return arg.toLowerCase();
+  if (arg instanceof Array) return arg.map(lowerCase);
+
+  return arg;
+}
+
+/**
+ * Checks whether a list has an item equal to value
+ * @param {Literal[]} list  - The list to search
+ * @param {Literal}   value - The value to find
+ * @returns {boolean} Whether value is in list
+ */
+function has(list: Literal[], value: Literal): boolean {
+  return list.some((i) => isEqual(i, value));
+}
+
+/**
+ * Builds a RegExp from a pattern like "^a.c$", or a pattern with flags like "/^a.c$/i"
+ * @param {string} pattern - The pattern
+ * @returns {RegExp | null} The RegExp, or null if pattern is invalid
+ */
+function toRegExp(pattern: string): RegExp | null {
+  const literal = pattern.match(/^\/([\s\S]*)\/([a-z]*)$/);
+
+  try {
+    return literal ? new RegExp(literal[1], literal[2]) : new RegExp(pattern);
+  } catch (err) {
+    return null;
+  }
+}
+
+/**
+ * Converts a Literal into text for templates, objects become JSON
+ * @param {Literal} arg    - The value to convert
+ * @param {string}  [join] - Separator for lists
+ * @returns {string} The text
+ */
+function toText(arg: Literal, join: string = ", "): string {
+  if (typeof arg === "string") return arg;
+  if (arg instanceof Array) return arg.map((i) => toText(i)).join(join);
+  if (arg && typeof arg === "object") return JSON.stringify(arg);
+
+  return String(arg);
+}
+
+/**
+ * Converts a Literal into a number for lt and gt, lists become their length
+ * @param {Literal} arg - The value to convert
+ * @returns {number} The number, or NaN if arg can't be converted
+ */
+function toNumber(arg: Literal): number {
+  if (typeof arg === "number") return arg;
+  if (typeof arg === "string") return parseFloat(arg);
+  if (arg instanceof Array) return arg.length;
+
+  return NaN;
+}
+
+function parseLtGt(arg1: Literal, arg2: Literal) {
+  return { num1: toNumber(arg1), num2: toNumber(arg2) };
+}
+
+/**
+ * Checks whether a ConditionNode is a group of conditions
+ * @param {ConditionNode} cond - The condition to check
+ * @returns {boolean} Whether cond is a ConditionGroup
+ */
+function isConditionGroup(cond: ConditionNode): cond is ConditionGroup {
+  return "all" in cond || "any" in cond || "not" in cond;
+}
+
+/**
+ * Checks whether a ConditionNode is an expression condition
+ * @param {ConditionNode} cond - The condition to check
+ * @returns {boolean} Whether cond is an ExpressionCondition
+ */
+function isExpressionCondition(
+  cond: ConditionNode
+): cond is ExpressionCondition {
+  return "expression" in cond;
+}
+
+/**
+ * Checks whether a path points to a value bound while evaluating, like "$item", instead of a variable
+ * @param {string} path - The path to check
+ * @returns {boolean} Whether path starts with "$"
+ */
+function isLocal(path: string): boolean {
+  return path.startsWith("$");
+}
+
+/**
+ * Checks whether a path is a pattern like "prices.*" or "*.enabled", which stands for every variable matching it
+ * @param {string} path - The path to check
+ * @returns {boolean} Whether path contains "*"
+ */
+function isPattern(path: string): boolean {
+  return path.includes("*");
+}
+
+/**
+ * Checks whether a path matches a pattern, where "*" matches anything within one segment
+ * @param {string} pattern - The normalized pattern, like "*.enabled" or "flags.*_enabled"
+ * @param {string} path    - The normalized path to check
+ * @returns {boolean} Whether path matches pattern
+ */
+function matchesPattern(pattern: string, path: string): boolean {
+  const source = pattern
+    .split("*")
+    .map((i) => i.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join("[^.]*");
+
+  return new RegExp(`^${source}$`).test(path);
+}
+
+/**
+ * Converts a literal to a Value that evaluates to it, with or without the typed option
+ * @param {Literal} literal - The literal to convert
+ * @returns {Value} A string, or a literal Value with the valueType of literal
+ */
+function toLiteralValue(literal: Literal): Value {
+  if (typeof literal === "string") return literal;
+
+  return {
+    value: JSON.stringify(literal),
+    type: "literal",
+    valueType:
+      literal === null
+        ? "null"
+        : typeof literal === "object"
+        ? "json"
+        : typeof literal
+  };
+}
+
+/**
+ * Creates a variable that evaluates to a literal, lists and objects become List and Object variables
+ * @param {Literal} literal - The value of the variable
+ * @param {string}  path    - The path of the variable
+ * @returns {Var} The variable
+ */
+function literalVar(literal: Literal, path: string): Var {
+  const { scope, name } = splitPath(path);
+  const toObject = (value: { [key: string]: Literal }): ObjectValue => {
+    const output: ObjectValue = {};
+
+    for (let i of Object.keys(value)) {
+      const current = value[i];
+
+      output[i] =
+        current && typeof current === "object" && !(current instanceof Array)
+          ? toObject(current)
+          : toLiteralValue(current);
+    }
+
+    return output;
+  };
+
+  if (literal instanceof Array) {
+    return { name, scope, value: literal.map(toLiteralValue), varType: "list" };
+  } else if (literal && typeof literal === "object") {
+    return { name, scope, value: toObject(literal), varType: "object" };
+  }
+
+  return { name, scope, value: toLiteralValue(literal), varType: "basic" };
+}
+
+/**
+ * Checks whether a property of an object variable is a Value, rather than a nested object
+ * @param {Value | ObjectValue} node - The property to check
+ * @returns {boolean} Whether node is a Value
+ */
+function isValueNode(node: Value | ObjectValue): node is Value {
+  return typeof node === "string" || typeof node.type === "string";
+}
+
+/**
+ * Gets a property of an evaluated value, like an object key or list index
+ * @param {Literal}  value      - The value to get the property of
+ * @param {string[]} properties - The keys to follow, in order
+ * @returns {Literal | undefined} The property, or undefined if it doesn't exist
+ */
+function getProperty(
+  value: Literal | undefined,
+  properties: string[]
+): Literal | undefined {
+  for (let i of properties) {
+    if (!value || typeof value !== "object" || !value.hasOwnProperty(i)) {
+      return undefined;
+    }
+
+    value = (<{ [key: string]: Literal }>value)[i];
+  }
+
+  return value;
+}
+
+/**
+ * Gets the paths of the properties that differ between two objects, relative to the objects
+ * @param {ObjectValue} a        - The old object
+ * @param {ObjectValue} b        - The new object
+ * @param {string}      [prefix] - Prepended to every path
+ * @returns {string[]} The changed, added, and removed properties, like "colors.primary"
+ */
+function changedKeys(a: ObjectValue, b: ObjectValue, prefix = ""): string[] {
+  const output: string[] = [];
+
+  for (let i of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const x = a[i];
+    const y = b[i];
+
+    if (isEqual(x, y)) continue;
+
+    if (x && y && !isValueNode(x) && !isValueNode(y)) {
+      output.push(...changedKeys(x, y, `${prefix}${i}.`));
+    } else {
+      output.push(`${prefix}${i}`);
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Checks whether a Value is a reference to another variable
+ * @param {Value} value - The value to check
+ * @returns {boolean} Whether value is a Reference
+ */
+function isReference(value: Value): value is Reference {
+  return (
+    typeof value !== "string" &&
+    value.type !== "literal" &&
+    value.type !== "expression"
+  );
+}
+
+/**
+ * Calls callback with every TypedValue in a Var, including the vars of inline expressions
+ * @param {Var}      variable - The variable to walk
+ * @param {Function} callback - Called with each TypedValue found
+ */
+function walkValues(variable: Var, callback: (value: TypedValue) => void) {
+  const visit = (value: Value | undefined) => {
+    if (!value || typeof value === "string") return;
+
+    callback(value);
+
+    if (value.type === "expression" && "vars" in value) {
+      Object.values((<InlineExpression>value).vars).forEach(visit);
+    }
+  };
+
+  const visitCondition = (cond: ConditionNode) => {
+    if (isConditionGroup(cond)) {
+      (cond.all || cond.any || []).forEach(visitCondition);
+
+      if (cond.not) visitCondition(cond.not);
+    } else if (isExpressionCondition(cond)) {
+      Object.values(cond.vars || {}).forEach(visit);
+    } else {
+      visit(cond.val1);
+      visit(cond.val2);
+    }
+  };
+
+  // returns the template with changed paths written back
+  const visitTemplate = (source: string) => {
+    const tokens = parseTemplate(source).tokens;
+    const refs = tokens.map((i) => ({ value: i.path, type: "reference" }));
+
+    refs.forEach(callback);
+
+    // last first so indexes stay valid
+    for (let i = tokens.length - 1; i > -1; i--) {
+      if (refs[i].value !== tokens[i].path) {
+        source =
+          source.slice(0, tokens[i].pathStart) +
+          refs[i].value +
+          source.slice(tokens[i].pathEnd);
+      }
+    }
+
+    return source;
+  };
+
+  if (variable.varType === "basic") {
+    visit(<Value>variable.value);
+  } else if (variable.varType === "list") {
+    (<Value[]>variable.value).forEach(visit);
+  } else if (variable.varType === "table") {
+    const table = variable as TableVar;
+
+    for (let row of table.value) {
+      row.conditions.forEach(visitCondition);
+
+      visit(row.output);
+    }
+
+    visit(table.default);
+  } else if (variable.varType === "expression") {
+    const expr = variable as ExpressionVar;
+
+    visit(expr.value);
+    Object.values(expr.vars || {}).forEach(visit);
+    (expr.functions || []).forEach(visit);
+  } else if (variable.varType === "object") {
+    const visitObject = (node: ObjectValue) => {
+      for (let i of Object.values(node)) {
+        if (isValueNode(i)) visit(i);
+        else visitObject(i);
+      }
+    };
+
+    visitObject(<ObjectValue>variable.value);
+  } else if (variable.varType === "aggregate") {
+    const aggregate = variable as AggregateVar;
+
+    (aggregate.value instanceof Array
+      ? aggregate.value
+      : [aggregate.value]
+    ).forEach(visit);
+  } else if (variable.varType === "listOp") {
+    const list = variable as ListOpVar;
+
+    visit(list.value);
+
+    for (let i of list.steps) {
+      if (i.condition) visitCondition(i.condition);
+
+      Object.values(i.vars || {}).forEach(visit);
+
+      if (i.template !== undefined) i.template = visitTemplate(i.template);
+    }
+  } else if (variable.varType === "template") {
+    variable.value = visitTemplate(<string>variable.value);
+  }
+}
+
+/**
+ * Finds the references in a Var that are used where a particular kind of value is expected,
+ * like the operands of lt or the vars of expressions
+ * @param {Var} variable - The variable to search
+ * @returns {TypeSlot[]} The references found
+ */
+function findSlots(variable: Var): TypeSlot[] {
+  const slots: TypeSlot[] = [];
+
+  const add = (value: Value | undefined, pointer: string, expects: string) => {
+    if (value && typeof value !== "string" && value.type === "reference") {
+      slots.push({ pointer, reference: value.value, expects });
+    }
+  };
+
+  const visitVars = (vars: { [name: string]: Value }, pointer: string) => {
+    for (let i of Object.keys(vars || {})) {
+      add(vars[i], `${pointer}${toPointer(i)}`, "expression");
+      visit(vars[i], `${pointer}${toPointer(i)}`);
+    }
+  };
+
+  // inline expressions can be anywhere a Value is
+  const visit = (value: Value | undefined, pointer: string) => {
+    if (value && typeof value !== "string" && value.type === "expression") {
+      visitVars((<InlineExpression>value).vars, `${pointer}/vars`);
+    }
+  };
+
+  const visitCondition = (cond: ConditionNode, pointer: string) => {
+    if (isConditionGroup(cond)) {
+      (cond.all || []).forEach((e, i) =>
+        visitCondition(e, `${pointer}/all/${i}`)
+      );
+      (cond.any || []).forEach((e, i) =>
+        visitCondition(e, `${pointer}/any/${i}`)
+      );
+
+      if (cond.not) visitCondition(cond.not, `${pointer}/not`);
+    } else if (isExpressionCondition(cond)) {
+      visitVars(cond.vars, `${pointer}/vars`);
+    } else {
+      const comparison = cond.comparison.replace(/I$/, "");
+
+      if (numericComparisons.includes(comparison)) {
+        add(cond.val1, `${pointer}/val1`, "number");
+        add(
+          cond.val2,
+          `${pointer}/val2`,
+          comparison === "between" ? "numberList" : "number"
+        );
+      } else if (comparison === "in" || comparison === "notIn") {
+        add(cond.val2, `${pointer}/val2`, "list");
+      }
+
+      visit(cond.val1, `${pointer}/val1`);
+      visit(cond.val2, `${pointer}/val2`);
+    }
+  };
+
+  if (variable.varType === "basic") {
+    visit(<Value>variable.value, "/value");
+  } else if (variable.varType === "list") {
+    (<Value[]>variable.value).forEach((e, i) => visit(e, `/value/${i}`));
+  } else if (variable.varType === "table") {
+    const table = variable as TableVar;
+
+    table.value.forEach((row, i) => {
+      row.conditions.forEach((e, j) =>
+        visitCondition(e, `/value/${i}/conditions/${j}`)
+      );
+
+      visit(row.output, `/value/${i}/output`);
+    });
+
+    visit(table.default, "/default");
+  } else if (variable.varType === "expression") {
+    const expr = variable as ExpressionVar;
+
+    visit(expr.value, "/value");
+    visitVars(expr.vars, "/vars");
+    (expr.functions || []).forEach((e, i) => visit(e, `/functions/${i}`));
+  } else if (variable.varType === "object") {
+    const visitObject = (node: ObjectValue, pointer: string) => {
+      for (let i of Object.keys(node)) {
+        const current = node[i];
+
+        if (isValueNode(current)) visit(current, `${pointer}${toPointer(i)}`);
+        else visitObject(current, `${pointer}${toPointer(i)}`);
+      }
+    };
+
+    visitObject(<ObjectValue>variable.value, "/value");
+  } else if (variable.varType === "listOp") {
+    const list = variable as ListOpVar;
+
+    add(list.value, "/value", "list");
+    visit(list.value, "/value");
+
+    list.steps.forEach((e, i) => {
+      if (e.condition) visitCondition(e.condition, `/steps/${i}/condition`);
+
+      visitVars(e.vars || {}, `/steps/${i}/vars`);
+    });
+  }
+
+  return slots;
+}
+
+/**
+ * Gets the normalized paths of every variable referenced in a Var's definition
+ * @param {Var}      variable                - The variable to check
+ * @param {Function} [resolve=normalizePath] - Turns a path and the scope it's relative to into an absolute path
+ * @returns {string[]} The referenced paths, in the order they appear
+ */
+function getReferences(
+  variable: Var,
+  resolve: (path: string, scope: string) => string = normalizePath
+): string[] {
+  const output = new Set<string>();
+
+  walkValues(variable, (value) => {
+    if (isReference(value) && !isLocal(value.value)) {
+      output.add(resolve(value.value, variable.scope));
+    }
+  });
+
+  return [...output];
+}
+
+/**
+ * Normalizes a path relative to its scope.
+ * "global." makes a path absolute, each "../" moves up one scope, and "./" stays in scope.
+ * Other paths containing a period are absolute, and unqualified names are put in scope.
+ * Usually not needed if scope is global.
+ * @param {string} path             - The path to normalize
+ * @param {string} [scope="global"] - The scope the path is relative to
+ * @returns {string} The normalized path
+ */
+export function normalizePath(path: string, scope: string = "global"): string {
+  const index = path.indexOf("[");
+
+  // indexes like "[2]" become properties of the normalized path before them
+  if (index > 0) {
+    return (
+      normalizePath(path.slice(0, index), scope) +
+      path.slice(index).replace(/\[(\d+)\]/g, ".$1")
+    );
+  }
+
+  const segments = scope === "global" ? [] : scope.split(".");
+  let relative = false;
+
+  if (path.startsWith("global.")) {
+    segments.length = 0;
+    path = path.replace("global.", "");
+  }
+
+  while (path.startsWith("../") || path.startsWith("./")) {
+    // "../" at global stays at global
+    if (path.startsWith("../")) segments.pop();
+
+    path = path.slice(path.indexOf("/") + 1);
+    relative = true;
+  }
+
+  // remove multiple periods in a row
+  path = path.replace(/\.+/g, ".");
+
+  if (!relative && path.includes(".")) {
+    return path;
+  }
+
+  return [...segments, path].join(".");
+}
+
+/**
+ * Gets every path an unqualified name could refer to from within scope, innermost first.
+ * Qualified and relative paths only have one candidate
+ * @param {string} path             - The path to look up
+ * @param {string} [scope="global"] - The scope the path is relative to
+ * @returns {string[]} The normalized candidate paths
+ */
+function lookupPaths(path: string, scope: string = "global"): string[] {
+  const index = path.indexOf("[");
+
+  if (index > 0) {
+    const properties = path.slice(index).replace(/\[(\d+)\]/g, ".$1");
+
+    return lookupPaths(path.slice(0, index), scope).map((i) => i + properties);
+  }
+
+  if (scope === "global" || /[./]/.test(path)) {
+    return [normalizePath(path, scope)];
+  }
+
+  const segments = scope.split(".");
+  const output: string[] = [];
+
+  for (let i = segments.length; i > -1; i--) {
+    output.push([...segments.slice(0, i), path].join("."));
+  }
+
+  return output;
+}
+
+/**
+ * Gets the path to a variable from its scope and name
+ * @param {string} name             - The name of the variable
+ * @param {string} [scope="global"] - The scope of the variable
+ * @returns {string} The path to the variable
+ */
+function getPath(name: string, scope: string = "global"): string {
+  if (scope !== "global") {
+    // return to global
+    if (name.startsWith("../")) {
+      name = name.replace("../", "");
+      return name;
+    }
+
+    return `${scope}.${name}`;
+  } else {
+    return name;
+  }
+}
+
+/**
+ * Splits a path into its scope and name
+ * @param {string} path - The path to split
+ * @returns {{scope: string, name: string}} The scope and name the path points to
+ */
+function splitPath(path: string): { scope: string; name: string } {
+  const split = normalizePath(path).split(".");
+
+  if (split.length === 1) {
+    return { scope: "global", name: split[0] };
+  }
+
+  return {
+    scope: split.slice(0, -1).join("."),
+    name: split[split.length - 1]
+  };
+}
+
+/**
+ * Checks whether a scope is "global" or dot separated names
+ * @param {string} scope - The scope to check
+ * @returns {boolean} Whether scope is valid
+ */
+function isValidScope(scope: string): boolean {
+  return (
+    scope === "global" ||
+    scope.split(".").every((i) => namePattern.test(i) && i !== "global")
+  );
+}
+
+/**
+ * Gets a path that resolves to the absolute path from within scope
+ * @param {string} path  - The absolute path to point to
+ * @param {string} scope - The scope the returned path will be relative to
+ * @returns {string} The relative path
+ */
+function relativePath(path: string, scope: string): string {
+  if (scope === "global" || path.includes(".")) return path;
+
+  // go all the way up so a variable with the same name in between isn't found first
+  return `${"../".repeat(scope.split(".").length)}${path}`;
+}
+
+/**
+ * Reverses the edges of a graph, so each path maps to the paths that use it
+ * @param {DependencyGraph} graph - The graph to reverse
+ * @returns {DependencyGraph} The reversed graph
+ */
+function reverseGraph(graph: DependencyGraph): DependencyGraph {
+  const output: DependencyGraph = {};
+
+  for (let i of Object.keys(graph)) {
+    for (let e of graph[i]) {
+      if (!output[e]) output[e] = [];
+
+      output[e].push(i);
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Gets every path reachable from start, not including start unless it's part of a loop
+ * @param {DependencyGraph} graph - The graph to walk
+ * @param {string}          start - The path to start from
+ * @returns {string[]} The reachable paths, breadth first
+ */
+function walkGraph(graph: DependencyGraph, start: string): string[] {
+  const seen = new Set<string>();
+  const queue = [...(graph[start] || [])];
+
+  while (queue.length > 0) {
+    const current = <string>queue.shift();
+
+    if (seen.has(current)) continue;
+
+    seen.add(current);
+    queue.push(...(graph[current] || []));
+  }
+
+  return [...seen];
+}
+
+/**
+ * Finds the shortest path between two paths in a graph
+ * @param {DependencyGraph} graph - The graph to search
+ * @param {string}          from  - The path to start from
+ * @param {string}          to    - The path to end at
+ * @returns {string[] | null} The paths walked, including from and to, or null if to can't be reached
+ */
+function findPath(
+  graph: DependencyGraph,
+  from: string,
+  to: string
+): string[] | null {
+  const previous: { [path: string]: string } = {};
+  const queue = [from];
+
+  while (queue.length > 0) {
+    const current = <string>queue.shift();
+
+    for (let i of graph[current] || []) {
+      if (i in previous) continue;
+
+      previous[i] = current;
+
+      if (i === to) {
+        const output = [to];
+
+        for (let e = previous[to]; e !== from; e = previous[e]) {
+          output.unshift(e);
+        }
+
+        return [from, ...output];
+      }
+
+      queue.push(i);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Finds the strongly connected components of a graph that contain a loop
+ * @param {DependencyGraph} graph - The graph to search
+ * @returns {string[][]} The members of each component, in the order they were first reached
+ */
+function findComponents(graph: DependencyGraph): string[][] {
+  // Tarjan's algorithm
+  const index: { [path: string]: number } = {};
+  const lowLink: { [path: string]: number } = {};
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const output: string[][] = [];
+  let counter = 0;
+
+  const connect = (path: string) => {
+    index[path] = lowLink[path] = counter++;
+    stack.push(path);
+    onStack.add(path);
+
+    for (let i of graph[path]) {
+      if (!(i in graph)) continue;
+
+      if (!(i in index)) {
+        connect(i);
+        lowLink[path] = Math.min(lowLink[path], lowLink[i]);
+      } else if (onStack.has(i)) {
+        lowLink[path] = Math.min(lowLink[path], index[i]);
+      }
+    }
+
+    if (lowLink[path] === index[path]) {
+      const component: string[] = [];
+      let current: string;
+
+      do {
+        current = <string>stack.pop();
+        onStack.delete(current);
+        component.unshift(current);
+      } while (current !== path);
+
+      // single paths are only loops if they depend on themselves
+      if (component.length > 1 || graph[path].includes(path)) {
+        output.push(component);
+      }
+    }
+  };
+
+  for (let i of Object.keys(graph)) {
+    if (!(i in index)) connect(i);
+  }
+
+  return output;
+}
+
+const namePattern = /^[A-Z\d_]+$/i;
+
+/**
+ * expr-eval operator options that aren't named after a function
+ */
+const operatorGroups = [
+  "add",
+  "subtract",
+  "multiply",
+  "divide",
+  "remainder",
+  "power",
+  "factorial",
+  "comparison",
+  "concatenate",
+  "logical",
+  "conditional",
+  "in",
+  "assignment",
+  "array",
+  "fndef"
+];
+
+/**
+ * Current Snapshot format version
+ */
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * Upgrades snapshots from older versions, keyed by the version they upgrade from
+ */
+const migrations: { [version: number]: (snapshot: Snapshot) => Snapshot } = {};
+
+const comparisons: {
+  [name: string]: (arg1: Literal, arg2: Literal) => boolean;
+} = {
+  eq: (arg1: Literal, arg2: Literal) => {
+    if (arg1 instanceof Array && arg2 instanceof Array) {
+      // lists are equal if they have the same items, in any order
+      return (
+        arg1
+          .filter((i) => !has(arg2, i))
+          .concat(arg2.filter((i) => !has(arg1, i))).length === 0
+      );
+    }
+
+    return isEqual(arg1, arg2);
+  },
+  ne: (arg1: Literal, arg2: Literal) => !comparisons.eq(arg1, arg2),
+  lt: (arg1: Literal, arg2: Literal) => {
+    const { num1, num2 } = parseLtGt(arg1, arg2);
+    return num1 < num2;
+  },
+  gt: (arg1: Literal, arg2: Literal) => {
+    const { num1, num2 } = parseLtGt(arg1, arg2);
+    return num1 > num2;
+  },
+  lte: (arg1: Literal, arg2: Literal) => {
+    const { num1, num2 } = parseLtGt(arg1, arg2);
+    return num1 <= num2;
+  },
+  gte: (arg1: Literal, arg2: Literal) => {
+    const { num1, num2 } = parseLtGt(arg1, arg2);
+    return num1 >= num2;
+  },
+  between: (arg1: Literal, arg2: Literal) => {
+    // arg2 is [min, max], inclusive
+    if (!(arg2 instanceof Array) || arg2.length !== 2) return false;
+
+    const num1 = toNumber(arg1);
+    return num1 >= toNumber(arg2[0]) && num1 <= toNumber(arg2[1]);
+  },
+  in: (arg1: Literal, arg2: Literal) => {
+    // type mismatch
+    if (!(arg2 instanceof Array)) return false;
+
+    if (arg1 instanceof Array) {
+      return arg1.every((i) => has(arg2, i));
+    }
+
+    return has(arg2, arg1);
+  },
+  notIn: (arg1: Literal, arg2: Literal) => {
+    // type mismatch
+    if (!(arg2 instanceof Array)) return false;
+
+    if (arg1 instanceof Array) {
+      return arg1.every((i) => !has(arg2, i));
+    }
+
+    return !has(arg2, arg1);
+  },
+  contains: (arg1: Literal, arg2: Literal) => {
+    // substrings of a string, items of a list
+    const items = arg2 instanceof Array ? arg2 : [arg2];
+
+    if (typeof arg1 === "string") {
+      return items.every((i) => typeof i === "string" && arg1.includes(i));
+    }
+
+    return arg1 instanceof Array && items.every((i) => has(arg1, i));
+  },
+  startsWith: (arg1: Literal, arg2: Literal) => {
+    if (typeof arg1 === "string") {
+      return typeof arg2 === "string" && arg1.startsWith(arg2);
+    }
+
+    if (!(arg1 instanceof Array)) return false;
+
+    const items = arg2 instanceof Array ? arg2 : [arg2];
+
+    return items.every((e, i) => i < arg1.length && isEqual(arg1[i], e));
+  },
+  endsWith: (arg1: Literal, arg2: Literal) => {
+    if (typeof arg1 === "string") {
+      return typeof arg2 === "string" && arg1.endsWith(arg2);
+    }
+
+    if (!(arg1 instanceof Array)) return false;
+
+    const items = arg2 instanceof Array ? arg2 : [arg2];
+    const offset = arg1.length - items.length;
+
+    return offset > -1 && items.every((e, i) => isEqual(arg1[offset + i], e));
+  },
+  matches: (arg1: Literal, arg2: Literal) => {
+    const pattern = typeof arg2 === "string" ? toRegExp(arg2) : null;
+
+    if (!pattern) return false;
+
+    const items = arg1 instanceof Array ? arg1 : [arg1];
+
+    return items.every((i) => {
+      // global and sticky patterns keep their position between calls
+      pattern.lastIndex = 0;
+      return typeof i === "string" && pattern.test(i);
+    });
+  },
+  empty: (arg1: Literal) =>
+    arg1 === null ||
+    (typeof arg1 === "object" && Object.keys(arg1).length === 0) ||
+    arg1 === "",
+  notEmpty: (arg1: Literal) => !comparisons.empty(arg1, "")
+};
+
+/**
+ * Comparisons that need numbers, which aren't converted from strings with the typed option
+ */
+const numericComparisons = ["lt", "gt", "lte", "gte", "between"];
+
+/**
+ * Types a literal can declare with valueType
+ */
+const valueTypes = ["string", "number", "boolean", "null", "json"];
+
+/**
+ * Steps of list operations, the last two end the pipeline with a single value
+ */
+const listOps = [
+  "filter",
+  "map",
+  "sort",
+  "unique",
+  "slice",
+  "reverse",
+  "flatten",
+  "join",
+  "count"
+];
+
+/**
+ * Operations of aggregate variables
+ */
+const aggregateOps = [
+  "sum",
+  "avg",
+  "min",
+  "max",
+  "count",
+  "product",
+  "median",
+  "concat"
+];
+
+/**
+ * Aggregate operations on numbers, null if there's nothing to aggregate
+ */
+const aggregators: { [op: string]: (numbers: number[]) => number | null } = {
+  sum: (numbers) => numbers.reduce((a, e) => a + e, 0),
+  product: (numbers) => numbers.reduce((a, e) => a * e, 1),
+  avg: (numbers) =>
+    numbers.length ? <number>aggregators.sum(numbers) / numbers.length : null,
+  min: (numbers) => (numbers.length ? Math.min(...numbers) : null),
+  max: (numbers) => (numbers.length ? Math.max(...numbers) : null),
+  median: (numbers) => {
+    if (!numbers.length) return null;
+
+    const sorted = [...numbers].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+
+    return sorted.length % 2
+      ? sorted[middle]
+      : (sorted[middle - 1] + sorted[middle]) / 2;
+  }
+};
+
+/**
+ * Most values kept in the context cache for each path, the oldest are dropped first
+ */
+const contextCacheSize = 50;
+
+/**
+ * Types a variable can declare with valueType, besides "list<...>"
+ */
+const declaredTypes = ["string", "number", "integer", "boolean", "enum"];
+
+/**
+ * What each kind of TypeSlot accepts, with a description for diagnostics
+ */
+const slotTypes: { [expects: string]: { accepts: RegExp; name: string } } = {
+  number: { accepts: /^(number|integer)$/, name: "a number" },
+  list: { accepts: /^list<.+>$/, name: "a list" },
+  numberList: {
+    accepts: /^list<(number|integer)>$/,
+    name: "a list of numbers"
+  },
+  expression: {
+    accepts: /^(number|integer|boolean|list<(number|integer)>)$/,
+    name: "a number, boolean, or list of numbers"
+  }
+};
+
+/**
+ * Checks whether a valueType is "list<...>" of a declared type, or a declared type
+ * @param {string} type - The valueType to check
+ * @returns {boolean} Whether the valueType is valid
+ */
+function isDeclaredType(type: string): boolean {
+  const list = type.match(/^list<(.+)>$/);
+
+  return list ? isDeclaredType(list[1]) : declaredTypes.includes(type);
+}
+
+/**
+ * Checks a value against a declared valueType and constraints, converting it to the type
+ * @param {Literal}          value       - The evaluated value
+ * @param {string}           type        - The valueType to check against
+ * @param {ValueConstraints} constraints - The constraints to check
+ * @returns {{value: Literal, error?: string, constraint?: string}} The converted value, or a description of the problem and the constraint that failed if it wasn't the type
+ */
+function coerceValue(
+  value: Literal,
+  type: string,
+  constraints: ValueConstraints
+): { value: Literal; error?: string; constraint?: string } {
+  const list = type.match(/^list<(.+)>$/);
+
+  if (list) {
+    if (!(value instanceof Array)) {
+      return { value, error: `must be a list, got ${JSON.stringify(value)}` };
+    }
+
+    const output: Literal[] = [];
+
+    for (let i = 0; i < value.length; i++) {
+      const item = coerceValue(value[i], list[1], constraints);
+
+      if (item.error) return { ...item, error: `item ${i} ${item.error}` };
+
+      output.push(item.value);
+    }
+
+    return { value: output };
+  }
+
+  const { min, max, pattern, values } = constraints;
+  let converted = value;
+
+  if (type === "number" || type === "integer") {
+    if (typeof value === "string" && value.trim()) converted = +value;
+
+    if (typeof converted !== "number" || !isFinite(converted)) {
+      return { value, error: `must be a number, got ${JSON.stringify(value)}` };
+    }
+
+    if (type === "integer" && !Number.isInteger(converted)) {
+      return { value, error: `must be an integer, got ${converted}` };
+    }
+
+    if (min !== undefined && converted < min) {
+      return { value, error: `must be at least ${min}`, constraint: "min" };
+    }
+
+    if (max !== undefined && converted > max) {
+      return { value, error: `must be at most ${max}`, constraint: "max" };
+    }
+  } else if (type === "boolean") {
+    converted = value === "true" ? true : value === "false" ? false : value;
+
+    if (typeof converted !== "boolean") {
+      return {
+        value,
+        error: `must be a boolean, got ${JSON.stringify(value)}`
+      };
+    }
+  } else if (type === "string") {
+    if (typeof value !== "string") {
+      return { value, error: `must be a string, got ${JSON.stringify(value)}` };
+    }
+
+    if (min !== undefined && value.length < min) {
+      return {
+        value,
+        error: `must be at least ${min} characters`,
+        constraint: "min"
+      };
+    }
+
+    if (max !== undefined && value.length > max) {
+      return {
+        value,
+        error: `must be at most ${max} characters`,
+        constraint: "max"
+      };
+    }
+
+    if (pattern !== undefined && !toRegExp(pattern)?.test(value)) {
+      return { value, error: `must match ${pattern}`, constraint: "pattern" };
+    }
+  }
+
+  if (values) {
+    // allowed values match by their text, so "1" matches 1 without the typed option
+    const match = values.find((i) => toText(i) === toText(converted));
+
+    if (match === undefined) {
+      return {
+        value,
+        error: `must be one of ${values.map((i) => toText(i)).join(", ")}`,
+        constraint: "values"
+      };
+    }
+
+    converted = match;
+  }
+
+  return { value: converted };
+}
+
+// case-insensitive variants, like "eqI"
+for (let i of [
+  "eq",
+  "ne",
+  "in",
+  "notIn",
+  "contains",
+  "startsWith",
+  "endsWith"
+]) {
+  const comparison = comparisons[i];
+
+  comparisons[`${i}I`] = (arg1: Literal, arg2: Literal) =>
+    comparison(lowerCase(arg1), lowerCase(arg2));
+}
+
+/**
+ * Comparisons that only use val1
+ */
+const unaryComparisons = ["empty", "notEmpty"];
+
+/**
+ * Builds a JSON pointer from its segments
+ * @param {Array<string | number>} parts - The segments of the pointer
+ * @returns {string} The escaped pointer
+ */
+function toPointer(...parts: Array<string | number>): string {
+  return parts
+    .map((i) => `/${i.toString().replace(/~/g, "~0").replace(/\//g, "~1")}`)
+    .join("");
+}
+
+/**
+ * Collects diagnostics for a Var's structure, without following references
+ * @param {Var} value - The variable to validate
+ * @returns {Diagnostic[]} Everything wrong with the variable
+ */
+function validateStructure(value: Var): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+
+  if (!value || typeof value !== "object") {
+    return [
+      {
+        path: "",
+        pointer: "",
+        code: "invalidVar",
+        message: "Variable must be an object",
+        severity: "error"
+      }
+    ];
+  }
+
+  const path =
+    typeof value.name === "string" && typeof value.scope === "string"
+      ? getPath(value.name, value.scope)
+      : "";
+
+  const report = (
+    pointer: string,
+    code: string,
+    message: string,
+    severity: string = "error"
+  ) => {
+    diagnostics.push({ path, pointer, code, message, severity });
+  };
+
+  const isObject = (obj: unknown): obj is { [key: string]: unknown } =>
+    !!obj && typeof obj === "object" && !(obj instanceof Array);
+
+  const isOneOf = (val: unknown, options: string[]) =>
+    typeof val === "string" && options.includes(val);
+
+  // list items and table outputs have always accepted Values without a type as references
+  const checkValue = (
+    val: unknown,
+    pointer: string,
+    field: string,
+    untyped = false
+  ) => {
+    if (typeof val === "string") return;
+
+    if (!isObject(val) || typeof val.value !== "string") {
+      report(pointer, "invalidValue", `${field} must be of type Value`);
+      return;
+    }
+
+    if (
+      !(untyped && !("type" in val)) &&
+      !isOneOf(val.type, ["literal", "reference", "expression"])
+    ) {
+      report(
+        `${pointer}/type`,
+        "invalidType",
+        `${field} type must be "literal", "reference", or "expression"`
+      );
+      return;
+    }
+
+    if (val.type === "expression") {
+      checkVars(val.vars, `${pointer}/vars`, `${field} "vars" field`);
+    }
+
+    if ("valueType" in val && !isOneOf(val.valueType, valueTypes)) {
+      report(
+        `${pointer}/valueType`,
+        "invalidType",
+        `${field} valueType must be one of ${valueTypes.join(", ")}`
+      );
+    }
+  };
+
+  const checkVars = (vars: unknown, pointer: string, field: string) => {
+    if (!isObject(vars)) {
+      report(
+        pointer,
+        "invalidObject",
+        `${field} must be of type {[name: string]: Value}`
+      );
+      return;
+    }
+
+    for (let i of Object.keys(vars)) {
+      checkValue(vars[i], `${pointer}${toPointer(i)}`, `${field} entry`);
+    }
+  };
+
+  const checkCondition = (cond: unknown, pointer: string) => {
+    if (!isObject(cond)) {
+      report(pointer, "invalidObject", "Condition must be of type Condition");
+      return;
+    }
+
+    const groups = ["all", "any", "not"].filter((i) => i in cond);
+
+    if (groups.length > 1) {
+      report(
+        pointer,
+        "invalidObject",
+        'Condition group must have exactly one of "all", "any", or "not"'
+      );
+      return;
+    }
+
+    if (groups[0] === "not") {
+      checkCondition(cond.not, `${pointer}/not`);
+      return;
+    }
+
+    if (groups.length === 1) {
+      const group = groups[0];
+      const items = cond[group];
+
+      if (!(items instanceof Array)) {
+        report(
+          `${pointer}/${group}`,
+          "invalidArray",
+          `Condition group "${group}" field must be of type ConditionNode[]`
+        );
+        return;
+      }
+
+      items.forEach((i: unknown, e: number) =>
+        checkCondition(i, `${pointer}/${group}/${e}`)
+      );
+      return;
+    }
+
+    if ("expression" in cond) {
+      if (typeof cond.expression !== "string") {
+        report(
+          `${pointer}/expression`,
+          "invalidValue",
+          "Condition expression must be a string"
+        );
+      }
+
+      checkVars(cond.vars, `${pointer}/vars`, 'Condition "vars" field');
+      return;
+    }
+
+    checkValue(cond.val1, `${pointer}/val1`, "Condition val1");
+
+    if (
+      !isOneOf(cond.comparison, unaryComparisons) ||
+      cond.val2 !== undefined
+    ) {
+      checkValue(cond.val2, `${pointer}/val2`, "Condition val2");
+    }
+
+    if (
+      cond.comparison === "matches" &&
+      typeof cond.val2 === "string" &&
+      !toRegExp(cond.val2)
+    ) {
+      report(
+        `${pointer}/val2`,
+        "invalidPattern",
+        "Condition val2 must be a valid regular expression"
+      );
+    }
+
+    if (!isOneOf(cond.comparison, Object.keys(comparisons))) {
+      report(
+        `${pointer}/comparison`,
+        "invalidComparison",
+        `Condition comparison must be one of ${Object.keys(comparisons).join(
+          ", "
+        )}`
+      );
+    }
+  };
+
+  if (typeof value.name !== "string" || !namePattern.test(value.name)) {
+    report("/name", "invalidName", "Name must match pattern /^[A-Z\\d_]+$/i");
+  }
+
+  if (typeof value.scope !== "string" || !isValidScope(value.scope)) {
+    report(
+      "/scope",
+      "invalidScope",
+      'Scope must be "global" or period separated names matching pattern /^[A-Z\\d_]+$/i'
+    );
+  }
+
+  // fields of other variable types, which are checked before they're used
+  const fields = <{ [key: string]: unknown }>(<unknown>value);
+
+  if ("valueType" in value) {
+    if (
+      typeof value.valueType !== "string" ||
+      !isDeclaredType(value.valueType)
+    ) {
+      report(
+        "/valueType",
+        "invalidValueType",
+        'Variable valueType must be "string", "number", "integer", "boolean", "enum", or "list<...>" of one of them'
+      );
+    } else if (
+      value.valueType.endsWith("enum") &&
+      !(
+        isObject(fields.constraints) &&
+        fields.constraints.values instanceof Array
+      )
+    ) {
+      report(
+        "/constraints/values",
+        "invalidArray",
+        'Variable valueType "enum" needs a "values" constraint'
+      );
+    }
+  }
+
+  if ("constraints" in value) {
+    const constraints = fields.constraints;
+
+    if (!isObject(constraints)) {
+      report(
+        "/constraints",
+        "invalidObject",
+        "Variable constraints must be of type ValueConstraints"
+      );
+    } else {
+      for (let i of ["min", "max"]) {
+        if (i in constraints && typeof constraints[i] !== "number") {
+          report(
+            `/constraints/${i}`,
+            "invalidValue",
+            `Constraint "${i}" must be a number`
+          );
+        }
+      }
+
+      if (
+        "pattern" in constraints &&
+        (typeof constraints.pattern !== "string" ||
+          !toRegExp(constraints.pattern))
+      ) {
+        report(
+          "/constraints/pattern",
+          "invalidPattern",
+          'Constraint "pattern" must be a valid regular expression'
+        );
+      }
+
+      if ("values" in constraints && !(constraints.values instanceof Array)) {
+        report(
+          "/constraints/values",
+          "invalidArray",
+          'Constraint "values" must be an array'
+        );
+      }
+    }
+  }
+
+  if (value.varType === "basic") {
+    checkValue(value.value, "/value", "Basic variable value");
+  } else if (value.varType === "list") {
+    if (!(value.value instanceof Array)) {
+      report("/value", "invalidArray", "List variable value must be an array");
+    } else {
+      value.value.forEach((e, i) =>
+        checkValue(e, `/value/${i}`, "List variable item", true)
+      );
+    }
+  } else if (value.varType === "table") {
+    if (!isOneOf(fields.priority, ["first", "last"])) {
+      report(
+        "/priority",
+        "invalidPriority",
+        'Table "priority" field must be either "first" or "last"'
+      );
+    }
+
+    if (!("default" in fields)) {
+      report("/default", "missingField", 'Table "default" field is required');
+    } else {
+      checkValue(fields.default, "/default", 'Table "default" field');
+    }
+
+    if (!(value.value instanceof Array)) {
+      report(
+        "/value",
+        "invalidArray",
+        "Table variable value must be of type TableRow[]"
+      );
+    } else {
+      value.value.forEach((row: unknown, i) => {
+        const pointer = `/value/${i}`;
+
+        if (!isObject(row) || "type" in row) {
+          report(
+            pointer,
+            "invalidObject",
+            "Table row must be of type TableRow"
+          );
+          return;
+        }
+
+        checkValue(row.output, `${pointer}/output`, "Table row output", true);
+
+        if (!(row.conditions instanceof Array)) {
+          report(
+            `${pointer}/conditions`,
+            "invalidArray",
+            "Table row conditions must be of type ConditionNode[]"
+          );
+          return;
+        }
+
+        row.conditions.forEach((cond: unknown, e: number) =>
+          checkCondition(cond, `${pointer}/conditions/${e}`)
+        );
+      });
+    }
+  } else if (value.varType === "expression") {
+    checkValue(value.value, "/value", "Expression value");
+    checkVars(fields.vars, "/vars", 'Expression "vars" field');
+
+    if ("functions" in fields) {
+      if (!(fields.functions instanceof Array)) {
+        report(
+          "/functions",
+          "invalidArray",
+          'Expression "functions" field must be of type Value[]'
+        );
+      } else {
+        fields.functions.forEach((e: unknown, i: number) =>
+          checkValue(e, `/functions/${i}`, 'Expression "functions" item')
+        );
+      }
+    }
+  } else if (value.varType === "listOp") {
+    checkValue(value.value, "/value", "List operation source");
+
+    const steps = fields.steps;
+
+    if (!(steps instanceof Array)) {
+      report(
+        "/steps",
+        "invalidArray",
+        "List operation steps must be of type ListStep[]"
+      );
+    } else {
+      steps.forEach((step: unknown, i: number) => {
+        const pointer = `/steps/${i}`;
+
+        if (!isObject(step)) {
+          report(pointer, "invalidObject", "Step must be of type ListStep");
+          return;
+        }
+
+        if (typeof step.op !== "string" || !listOps.includes(step.op)) {
+          report(
+            `${pointer}/op`,
+            "invalidOperation",
+            `Step op must be one of ${listOps.join(", ")}`
+          );
+          return;
+        }
+
+        if (["join", "count"].includes(step.op) && i !== steps.length - 1) {
+          report(
+            `${pointer}/op`,
+            "invalidOperation",
+            `Step "${step.op}" must be the last step`
+          );
+        }
+
+        if (step.op === "filter") {
+          checkCondition(step.condition, `${pointer}/condition`);
+        } else if (step.op === "map") {
+          const modes = ["expression", "template"].filter(
+            (e) => typeof step[e] === "string"
+          );
+
+          if (modes.length !== 1) {
+            report(
+              pointer,
+              "invalidObject",
+              'Step "map" must have exactly one of "expression" or "template"'
+            );
+          } else if (typeof step.template === "string") {
+            try {
+              parseTemplate(step.template);
+            } catch (err) {
+              report(
+                `${pointer}/template`,
+                "invalidTemplate",
+                (<Error>err).message
+              );
+            }
+          } else if ("vars" in step) {
+            checkVars(step.vars, `${pointer}/vars`, 'Step "vars" field');
+          }
+        } else if (step.op === "sort") {
+          if ("order" in step && !isOneOf(step.order, ["asc", "desc"])) {
+            report(
+              `${pointer}/order`,
+              "invalidValue",
+              'Step order must be "asc" or "desc"'
+            );
+          }
+
+          if ("numeric" in step && typeof step.numeric !== "boolean") {
+            report(
+              `${pointer}/numeric`,
+              "invalidValue",
+              "Step numeric must be a boolean"
+            );
+          }
+        } else if (step.op === "slice") {
+          for (let e of ["start", "end"]) {
+            if (e in step && !Number.isInteger(step[e])) {
+              report(
+                `${pointer}/${e}`,
+                "invalidValue",
+                `Step ${e} must be an integer`
+              );
+            }
+          }
+        } else if (
+          step.op === "join" &&
+          "separator" in step &&
+          typeof step.separator !== "string"
+        ) {
+          report(
+            `${pointer}/separator`,
+            "invalidValue",
+            "Step separator must be a string"
+          );
+        }
+      });
+    }
+  } else if (value.varType === "object") {
+    const checkObject = (node: unknown, pointer: string) => {
+      if (!isObject(node)) {
+        report(
+          pointer,
+          "invalidObject",
+          "Object variable value must be of type ObjectValue"
+        );
+        return;
+      }
+
+      for (let i of Object.keys(node)) {
+        const current = node[i];
+
+        if (!namePattern.test(i)) {
+          report(
+            `${pointer}${toPointer(i)}`,
+            "invalidName",
+            "Object keys must match pattern /^[A-Z\\d_]+$/i"
+          );
+        } else if (isObject(current) && typeof current.type !== "string") {
+          checkObject(current, `${pointer}${toPointer(i)}`);
+        } else {
+          checkValue(current, `${pointer}${toPointer(i)}`, "Object property");
+        }
+      }
+    };
+
+    checkObject(value.value, "/value");
+  } else if (value.varType === "aggregate") {
+    if (!isOneOf(fields.op, aggregateOps)) {
+      report(
+        "/op",
+        "invalidOperation",
+        `Aggregate op must be one of ${aggregateOps.join(", ")}`
+      );
+    }
+
+    if (value.value instanceof Array) {
+      value.value.forEach((e, i) =>
+        checkValue(e, `/value/${i}`, "Aggregate source")
+      );
+    } else {
+      checkValue(value.value, "/value", "Aggregate source");
+    }
+
+    if (
+      "nonNumeric" in fields &&
+      !isOneOf(fields.nonNumeric, ["skip", "error"])
+    ) {
+      report(
+        "/nonNumeric",
+        "invalidValue",
+        'Aggregate nonNumeric must be "skip" or "error"'
+      );
+    }
+
+    if ("separator" in fields && typeof fields.separator !== "string") {
+      report(
+        "/separator",
+        "invalidValue",
+        "Aggregate separator must be a string"
+      );
+    }
+  } else if (value.varType === "template") {
+    if (typeof value.value !== "string") {
+      report("/value", "invalidValue", "Template value must be a string");
+    } else {
+      try {
+        parseTemplate(value.value);
+      } catch (err) {
+        report("/value", "invalidTemplate", (<Error>err).message);
+      }
+    }
+  } else {
+    report(
+      "/varType",
+      "unknownVarType",
+      `Variable type "${value.varType}" is not implemented`,
+      "warning"
+    );
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Creates a new UserVars object for holding user defined dynamic variables
+ * @class
+ * @property {Vars}     vars    - Variable mapping, {name: value}, scoped vars are nested into scope name
+ * @property {Scopes}   scopes  - Settings of scopes, like the scopes they extend
+ * @property {Parser}   parser  - Parser for expressions
+ * @property {Cache}    cache   - Resolved values of variables
+ * @property {Deps}     deps    - Mapping from path to dependents
+ * @property {Changed}  changed - Record of which variables need to be re-evaluated
+ * @property {UserVarsOptions} options - Options the instance was created with
+ */
+export class UserVars {
+  vars: Vars;
+  scopes: Scopes;
+  parser: Parser;
+  cache: Cache;
+  deps: Deps;
+  changed: Changed;
+  options: UserVarsOptions;
+  #sentinels: Set<string>; // cache keys whose values contain sentinel strings or failed comparisons
+  #subscribers: {
+    [path: string]: Array<{ callback: Subscriber; full: boolean }>;
+  };
+  #listeners: { [event: string]: Set<ChangeListener> };
+  #pending: { [key: string]: ChangeEvent } | null; // old values of affected variables during a change
+  #dependents: DependencyGraph | null; // reversed graph from before a change, built once for all of it
+  #parsers: { [scope: string]: Parser }; // parsers for scopes with an ExpressionPolicy
+  #contextCache: { [key: string]: ContextEntry[] }; // values of paths that read $context, instead of cache
+  #patterns: Set<string>; // keys of deps that are patterns, checked when variables are added or removed
+
+  /**
+   * Creates a new UserVars object for holding user defined dynamic variables
+   * @param {UserVarsOptions} [options]                    - Instance options
+   * @param {boolean}         [options.rejectCycles=false] - Whether variables that would close a dependency loop should be rejected
+   * @param {ExpressionOptions} [options.expressions]      - Functions, constants, and operators available to expressions
+   * @param {boolean}         [options.typed=false]        - Whether literals keep their valueType and expressions their native result
+   * @param {Function}        [options.onCallbackError]    - Called with errors thrown by subscribers and change listeners
+   */
+  constructor(options: UserVarsOptions = {}) {
+    this.options = options;
+    this.vars = {};
+    this.scopes = {};
+    this.cache = {};
+    this.deps = {};
+    this.changed = {};
+    this.#sentinels = new Set();
+    this.#subscribers = {};
+    this.#listeners = { change: new Set() };
+    this.#pending = null;
+    this.#dependents = null;
+    this.#parsers = {};
+    this.#contextCache = {};
+    this.#patterns = new Set();
+
+    this.parser = this.#createParser();
+  }
+
+  /**
+   * Creates a parser with the host functions, constants, and operators from the options
+   * @param {ExpressionPolicy} [policy] - Allow-lists to limit the parser to
+   * @returns {Parser} The configured parser
+   */
+  #createParser(policy?: ExpressionPolicy): Parser {
+    const config = this.options.expressions || {};
+    const functions = config.functions || {};
+    const operators = { ...config.operators };
+    const named = Object.keys(new Parser().unaryOps).filter(
+      (i) => /^[a-z]/i.test(i) && i !== "not"
+    );
+
+    // built in functions like "round" are operators, which would be parsed before host functions
+    for (let i of Object.keys(functions)) {
+      if (named.includes(i)) operators[i] = false;
+    }
+
+    for (let i of policy?.operators ? operatorGroups : []) {
+      if (!policy?.operators?.includes(i)) operators[i] = false;
+    }
+
+    for (let i of policy?.functions ? named : []) {
+      if (!policy?.functions?.includes(i)) operators[i] = false;
+    }
+
+    const parser = new Parser({ operators });
+
+    Object.assign(parser.functions, functions);
+    Object.assign(parser.consts, config.constants);
+
+    if (policy?.functions) {
+      for (let i of Object.keys(parser.functions)) {
+        if (!policy.functions.includes(i)) delete parser.functions[i];
+      }
+    }
+
+    if (policy?.constants) {
+      for (let i of Object.keys(parser.consts)) {
+        if (!["true", "false", ...policy.constants].includes(i)) {
+          delete parser.consts[i];
+        }
+      }
+    }
+
+    return parser;
+  }
+
+  /**
+   * Gets the parser for expressions in a scope, limited by the ExpressionPolicy of the scope or its closest parent
+   * @param {string} scope - The scope of the variable containing the expression
+   * @returns {Parser} The parser to use
+   */
+  #parserFor(scope: string): Parser {
+    const policies = this.options.expressions?.scopes || {};
+
+    while (!policies[scope] && scope !== "global") {
+      scope = splitPath(scope).scope;
+    }
+
+    if (!policies[scope]) return this.parser;
+
+    if (!this.#parsers[scope]) {
+      this.#parsers[scope] = this.#createParser(policies[scope]);
+    }
+
+    return this.#parsers[scope];
+  }
+
+  /**
+   * Serializes the instance into a versioned Snapshot, which JSON.stringify uses automatically
+   * @param {SnapshotOptions} [options]             - Snapshot options
+   * @param {boolean}         [options.cache=false] - Whether up to date resolved values should be included, implies deps
+   * @param {boolean}         [options.deps=false]  - Whether the dependency graph should be included
+   * @returns {Snapshot} The serialized instance
+   */
+  toJSON(options: SnapshotOptions = {}): Snapshot {
+    // JSON.stringify passes the property key here
+    if (typeof options !== "object") options = {};
+
+    const output: Snapshot = {
+      version: SNAPSHOT_VERSION,
+      vars: cloneDeep(this.vars)
+    };
+
+    if (Object.keys(this.scopes).length > 0) {
+      output.scopes = cloneDeep(this.scopes);
+    }
+
+    if (options.cache) {
+      output.cache = {};
+
+      for (let i of Object.keys(this.cache)) {
+        // stale values would never be invalidated after restoring
+        if (this.changed[i] === false && !this.#sentinels.has(i)) {
+          output.cache[i] = cloneDeep(this.cache[i]);
+        }
+      }
+    }
+
+    if (options.deps || options.cache) {
+      output.deps = {};
+
+      for (let i of Object.keys(this.deps)) {
+        output.deps[i] = [...this.deps[i]];
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * Creates a new UserVars object from a Snapshot, migrating it from older versions if needed
+   * @param {Snapshot | string} snapshot  - The Snapshot, or a JSON string of it
+   * @param {UserVarsOptions}   [options] - Options for the new instance
+   * @returns {UserVars} The restored instance
+   */
+  static fromJSON(
+    snapshot: Snapshot | string,
+    options: UserVarsOptions = {}
+  ): UserVars {
+    let data: Snapshot =
+      typeof snapshot === "string" ? JSON.parse(snapshot) : snapshot;
+
+    if (!data || typeof data.version !== "number" || !data.vars) {
+      throw new TypeError("Snapshot must have a numeric version and vars");
+    }
+
+    if (data.version > SNAPSHOT_VERSION) {
+      throw new RangeError(
+        `Snapshot version ${data.version} is newer than supported version ${SNAPSHOT_VERSION}`
+      );
+    }
+
+    while (data.version < SNAPSHOT_VERSION) {
+      if (!migrations[data.version]) {
+        throw new RangeError(
+          `Snapshot version ${data.version} can't be migrated`
+        );
+      }
+
+      data = migrations[data.version](data);
+    }
+
+    const output = new UserVars(options);
+
+    output.vars = cloneDeep(data.vars);
+    output.scopes = cloneDeep(data.scopes || {});
+
+    if (data.deps) {
+      for (let i of Object.keys(data.deps)) {
+        output.deps[i] = new Set(data.deps[i]);
+
+        if (isPattern(i)) output.#patterns.add(i);
+      }
+    }
+
+    if (data.cache) {
+      for (let i of Object.keys(data.cache)) {
+        output.cache[i] = cloneDeep(data.cache[i]);
+        output.changed[i] = false;
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * Adds the passed scope to the list, along with any parent scopes. This is done automatically with addVar and the build methods
+   * @param {string}  scope     - Path of the scope to add to the list
+   * @param {boolean} [overwrite=true] - True if existing variables with conflicting names should be overwritten
+   * @returns {boolean} True if scope was added or already existed
+   */
+  #addScope(scope: string, overwrite: boolean = false): boolean {
+    if (scope === "global") return true;
+
+    let parent: Vars | Scope = this.vars;
+
+    for (let i of scope.split(".")) {
+      if (!parent[i] || (overwrite && isVar(parent[i]))) {
+        // there is nothing at parent[i]
+        // or
+        // parent[i] is a Var, not a Scope, and should be overwritten
+        parent[i] = {};
+      } else if (isVar(parent[i])) {
+        // there is a variable with the same name as the scope, but cannot overwrite it
+        return false;
+      }
+
+      parent = <Scope>parent[i];
+    }
+
+    return true;
+  }
+
+  /**
+   * Gets the Scope at a path
+   * @param {string} scope - Path of the scope
+   * @returns {Vars | Scope | null} The scope, or null if it doesn't exist or is a variable
+   */
+  #getScope(scope: string): Vars | Scope | null {
+    if (scope === "global") return this.vars;
+
+    const result = get(this.vars, scope, null);
+
+    return result && !isVar(result) ? result : null;
+  }
+
+  /**
+   * Creates a scope if it doesn't exist, and changes its settings.
+   * Names that aren't defined in the scope are looked up in the scopes it extends,
+   * and inherited variables are evaluated as if they were defined in the scope
+   * @param {string}       scope             - Path of the scope
+   * @param {ScopeOptions} [options]         - Scope settings
+   * @param {string | string[]} [options.extends] - Scope or scopes to inherit variables from, in lookup order
+   * @returns {boolean} True if the scope was set
+   */
+  setScope(scope: string, options: ScopeOptions = {}): boolean {
+    const bases =
+      typeof options.extends === "string"
+        ? [options.extends]
+        : options.extends || [];
+
+    if (scope === "global" || !isValidScope(scope)) return false;
+    if (bases.some((i) => i === "global" || !isValidScope(i))) return false;
+
+    if (!this.#pending) {
+      return this.#batch(() => this.setScope(scope, options));
+    }
+
+    if (!this.#addScope(scope)) return false;
+
+    // anything evaluated in the scope may have been inherited
+    const affected = Object.keys(this.deps).filter((i) =>
+      i.startsWith(`${scope}.`)
+    );
+
+    affected.forEach((i) => this.#track(i));
+
+    if (bases.length > 0) {
+      this.scopes[scope] = { ...options, extends: bases };
+    } else {
+      delete this.scopes[scope];
+    }
+
+    affected.forEach((i) => this.#setChanged(i));
+
+    return true;
+  }
+
+  /**
+   * Gets the scopes a scope extends
+   * @param {string} scope - Path of the scope
+   * @returns {string[]} The extended scopes, in lookup order
+   */
+  #bases(scope: string): string[] {
+    const bases = this.scopes[scope]?.extends ?? [];
+
+    return typeof bases === "string" ? [bases] : bases;
+  }
+
+  /**
+   * Lists the names of the variables a scope inherits and doesn't override
+   * @param {string} scope - Path of the scope
+   * @returns {string[]} The inherited names
+   */
+  #inheritedNames(scope: string): string[] {
+    const names = new Set<string>();
+    const seen = new Set([scope]);
+    const own = this.#getScope(scope) || {};
+
+    const visit = (current: string) => {
+      if (seen.has(current)) return;
+
+      seen.add(current);
+
+      const found = this.#getScope(current) || {};
+
+      for (let i of Object.keys(found)) {
+        if (isVar(found[i])) names.add(i);
+      }
+
+      this.#bases(current).forEach(visit);
+    };
+
+    this.#bases(scope).forEach(visit);
+
+    return [...names].filter((i) => !own[i]);
+  }
+
+  /**
+   * Finds the Var at a path, looking through the scopes its scope extends if it isn't defined there
+   * @param {string}      path - The absolute path to the variable
+   * @param {Set<string>} seen - Scopes already looked through, to stop at loops
+   * @returns {{variable: Var, via: string[]} | null} The stored Var, and the paths looked through to find it ending with its own path, or null if it wasn't found
+   */
+  #lookupVar(
+    path: string,
+    seen: Set<string> = new Set()
+  ): { variable: Var; via: string[] } | null {
+    const result = get(this.vars, path, null);
+
+    if (isVar(result)) return { variable: result, via: [] };
+
+    const { scope, name } = splitPath(path);
+
+    seen.add(scope);
+
+    for (let i of this.#bases(scope)) {
+      if (seen.has(i)) continue;
+
+      const inherited = getPath(name, i);
+      const found = this.#lookupVar(inherited, seen);
+
+      if (found) {
+        return { variable: found.variable, via: [inherited, ...found.via] };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Adds the passed variable to Vars, and the evaluated value to vars.
+   * This is done automatically with the build methods
+   * @param {Var}     value                  - Variable to add to the list
+   * @param {boolean} [forceOverwrite=false] - Whether scopes and global variables with the same names can overwrite eachother
+   * @returns {boolean} True if variable was set
+   */
+  setVar(value: Var, forceOverwrite: boolean = false): boolean {
+    if (!this.#pending) {
+      return this.#batch(() => this.setVar(value, forceOverwrite));
+    }
+
+    const nameMatch = namePattern.test(value.name);
+    const scopeMatch = isValidScope(value.scope);
+
+    if (!nameMatch) {
+      throw `Name must match pattern /^[A-Z\\d_]+$/i exactly (${value.scope}.${value.name})`;
+    }
+
+    if (!scopeMatch) {
+      throw `Scope must be "global" or period separated names matching pattern /^[A-Z\\d_]+$/i exactly (${value.scope}.${value.name})`;
+    }
+
+    if (this.validateVar(value).some((i) => i.severity === "error")) {
+      return false;
+    }
+
+    if (this.options.rejectCycles) {
+      const cycle = this.#findCycleThrough(value);
+
+      if (cycle) {
+        throw new CircularDependencyError(
+          getPath(value.name, value.scope),
+          cycle
+        );
+      }
+    }
+
+    this.#track(getPath(value.name, value.scope));
+
+    // variable goes to root
+    if (value.scope === "global") {
+      if (!this.vars[value.name] || isVar(this.vars[value.name])) {
+        this.vars[value.name] = { ...value };
+
+        this.#setChanged(getPath(value.name, value.scope));
+        this.#setPatternsChanged(getPath(value.name, value.scope));
+
+        return true;
+      }
+
+      if (forceOverwrite) {
         this.vars[value.name] = { ...value };
 
-        this.#setChanged(getPath(value.name, value.scope));
+        this.#setChanged(getPath(value.name, value.scope));
+        this.#setPatternsChanged(getPath(value.name, value.scope));
+
+        return true;
+      }
+
+      return false;
+    } else {
+      // variable goes to a scope
+      // successfully added or already existed
+      if (this.#addScope(value.scope, forceOverwrite)) {
+        const scope = <Scope>this.#getScope(value.scope);
+
+        if (!scope[value.name]) {
+          scope[value.name] = { ...value };
+
+          this.#setChanged(getPath(value.name, value.scope));
+          this.#setPatternsChanged(getPath(value.name, value.scope));
+
+          return true;
+        }
+
+        // variable at path exists and can't be overwritten
+        return false;
+      } else {
+        // couldn't add scope
+        return false;
+      }
+    }
+  }
+
+  /**
+   * Helper function for setting multiple variables at once
+   * @param {Var[]}   values - Array of variable data to pass to setVar
+   * @returns {boolean[]} Array of boolean representing whether each variable was added
+   */
+  setVarBulk(...values: Var[]): boolean[] {
+    if (!this.#pending) {
+      return this.#batch(() => this.setVarBulk(...values));
+    }
+
+    const output: boolean[] = [];
+
+    for (let i of values) {
+      output.push(this.setVar(i, false));
+    }
+
+    return output;
+  }
+
+  /**
+   * Checks a Var's structure without adding it
+   * @param {Var} value - The variable to validate
+   * @returns {Diagnostic[]} Everything wrong with the variable, empty if it's valid
+   */
+  validateVar(value: Var): Diagnostic[] {
+    const diagnostics = validateStructure(value);
+
+    if (diagnostics.some((i) => i.severity === "error")) return diagnostics;
+
+    return [...diagnostics, ...this.#checkSlots(value)];
+  }
+
+  /**
+   * Warns about references to variables with a valueType that doesn't fit where they're used
+   * @param {Var} value - The variable to check
+   * @returns {Diagnostic[]} A typeMismatch warning for each reference that doesn't fit
+   */
+  #checkSlots(value: Var): Diagnostic[] {
+    const path = getPath(value.name, value.scope);
+    const output: Diagnostic[] = [];
+
+    for (let i of findSlots(value)) {
+      const reference = this.resolvePath(i.reference, value.scope);
+      const declared = this.#lookupVar(reference)?.variable.valueType;
+      const slot = slotTypes[i.expects];
+
+      if (declared && !slot.accepts.test(declared)) {
+        output.push({
+          path,
+          pointer: i.pointer,
+          code: "typeMismatch",
+          message: `${reference} is declared as ${declared}, but ${slot.name} is expected`,
+          severity: "warning"
+        });
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * Checks the structure of every stored Var
+   * @returns {Diagnostic[]} Everything wrong with all variables, empty if they're all valid
+   */
+  validateAll(): Diagnostic[] {
+    const output: Diagnostic[] = [];
+
+    for (let i of this.#listVars()) {
+      output.push(...this.validateVar(i));
+    }
+
+    return output;
+  }
+
+  /**
+   * Throws a TypeError for the first error found in a Var's structure
+   * @param {Var} value - The variable to check
+   */
+  #assertValid(value: Var) {
+    const error = validateStructure(value).find((i) => i.severity === "error");
+
+    if (error) {
+      throw new TypeError(
+        `${error.message} (${value.scope}.${value.name} ${error.pointer})`
+      );
+    }
+  }
+
+  /**
+   * Replaces an existing variable, global or scoped, keeping its dependents
+   * @param {Var} value - The new variable data
+   * @returns {UpdateResult} Whether the variable was replaced or rejected, and why
+   */
+  updateVar(value: Var): UpdateResult {
+    return this.#writeVar(value, false);
+  }
+
+  /**
+   * Replaces an existing variable, or creates it if it doesn't exist yet
+   * @param {Var} value - The new variable data
+   * @returns {UpdateResult} Whether the variable was created, replaced, or rejected, and why
+   */
+  upsertVar(value: Var): UpdateResult {
+    return this.#writeVar(value, true);
+  }
+
+  /**
+   * Writes a variable into the tree for updateVar and upsertVar
+   * @param {Var}     value  - The variable data
+   * @param {boolean} create - Whether the variable can be created if it doesn't exist
+   * @returns {UpdateResult} The outcome of the write
+   */
+  #writeVar(value: Var, create: boolean): UpdateResult {
+    const path = getPath(value.name, value.scope);
+
+    if (!namePattern.test(value.name)) {
+      return { path, status: "rejected", reason: "invalidName" };
+    }
+
+    if (!isValidScope(value.scope)) {
+      return { path, status: "rejected", reason: "invalidScope" };
+    }
+
+    const diagnostics = this.validateVar(value);
+
+    if (diagnostics.some((i) => i.severity === "error")) {
+      return { path, status: "rejected", reason: "invalidVar", diagnostics };
+    }
+
+    if (this.options.rejectCycles) {
+      const cycle = this.#findCycleThrough(value);
+
+      if (cycle) {
+        return {
+          path,
+          status: "rejected",
+          reason: "circularDependency",
+          cycle
+        };
+      }
+    }
+
+    let existing: Var | Scope | undefined;
+
+    if (value.scope === "global") {
+      existing = this.vars[value.name];
+
+      if (existing && !isVar(existing)) {
+        // a scope already has this name
+        return { path, status: "rejected", reason: "scopeConflict" };
+      }
+    } else {
+      let scope: Vars | Scope | undefined = this.vars;
+
+      for (let i of value.scope.split(".")) {
+        const current: Var | Scope | undefined = scope[i];
+
+        if (isVar(current)) {
+          // a variable already has the name of this scope or one of its parents
+          return { path, status: "rejected", reason: "varConflict" };
+        }
+
+        scope = current;
+
+        if (!scope) break;
+      }
+
+      existing = scope && scope[value.name];
+
+      if (existing && !isVar(existing)) {
+        // a nested scope already has this name
+        return { path, status: "rejected", reason: "scopeConflict" };
+      }
+    }
+
+    if (!existing && !create) {
+      return { path, status: "rejected", reason: "notFound" };
+    }
+
+    if (!this.#pending) {
+      return this.#batch(() => this.#writeVar(value, create));
+    }
+
+    this.#track(path);
+
+    // when only the properties of an object change, consumers of the other properties stay valid
+    const properties =
+      existing &&
+      existing.varType === "object" &&
+      isEqual({ ...existing, value: null }, { ...value, value: null })
+        ? changedKeys(<ObjectValue>existing.value, <ObjectValue>value.value)
+        : undefined;
+
+    this.#addScope(value.scope);
+    (<Scope>this.#getScope(value.scope))[value.name] = { ...value };
+
+    // deps are left alone so existing dependents are still invalidated
+    this.#setChanged(path, properties);
+
+    if (!existing) this.#setPatternsChanged(path);
+
+    return { path, status: existing ? "replaced" : "created" };
+  }
+
+  /**
+   * Removes the variable at path, invalidating everything that depends on it
+   * @param {string} path - The path to the variable
+   * @returns {boolean} True if the variable existed and was deleted
+   */
+  deleteVar(path: string): boolean {
+    path = normalizePath(path);
+
+    const { scope, name } = splitPath(path);
+
+    if (!isVar(get(this.vars, path, null))) return false;
+
+    if (!this.#pending) {
+      return this.#batch(() => this.deleteVar(path));
+    }
+
+    this.#track(path);
+
+    // dependents need to be re-evaluated before the edges to them are dropped
+    this.#setChanged(path);
+    this.#setPatternsChanged(path);
+
+    delete (<Scope>this.#getScope(scope))[name];
+
+    this.#forget(path);
+
+    return true;
+  }
+
+  /**
+   * Removes a scope and every variable and scope in it
+   * @param {string} scope - The path of the scope
+   * @returns {boolean} True if the scope existed and was deleted
+   */
+  deleteScope(scope: string): boolean {
+    const current = scope === "global" ? null : this.#getScope(scope);
+
+    if (!current) return false;
+
+    if (!this.#pending) {
+      return this.#batch(() => this.deleteScope(scope));
+    }
+
+    for (let i of Object.keys(current)) {
+      if (isVar(current[i])) {
+        this.deleteVar(`${scope}.${i}`);
+      } else {
+        this.deleteScope(`${scope}.${i}`);
+      }
+    }
+
+    const { scope: parent, name } = splitPath(scope);
+
+    delete (<Scope>this.#getScope(parent))[name];
+    delete this.scopes[scope];
+
+    return true;
+  }
+
+  /**
+   * Moves the variable at oldPath to newPath
+   * @param {string}        oldPath                             - The current path to the variable
+   * @param {string}        newPath                             - The path the variable should be moved to
+   * @param {RenameOptions} [options]                           - Rename options
+   * @param {boolean}       [options.rewriteReferences=false]   - Whether references to oldPath should be changed to point at newPath
+   * @returns {boolean} True if the variable was moved
+   */
+  renameVar(
+    oldPath: string,
+    newPath: string,
+    { rewriteReferences = false }: RenameOptions = {}
+  ): boolean {
+    oldPath = normalizePath(oldPath);
+    newPath = normalizePath(newPath);
+
+    if (oldPath === newPath) return false;
+
+    if (!this.#pending) {
+      return this.#batch(() =>
+        this.renameVar(oldPath, newPath, { rewriteReferences })
+      );
+    }
+
+    let variable: Var;
 
-        return true;
+    try {
+      variable = this.getRawVar(oldPath);
+    } catch (err) {
+      if (err instanceof ReferenceError) return false;
+
+      throw err;
+    }
+
+    if (get(this.vars, newPath, null)) return false;
+
+    const { scope, name } = splitPath(newPath);
+
+    if (rewriteReferences && scope !== variable.scope) {
+      // keep the moved variable's own references pointing at the same targets
+      const from = variable.scope;
+      variable = cloneDeep(variable);
+
+      walkValues(variable, (value) => {
+        if (isReference(value) && !isLocal(value.value)) {
+          value.value = relativePath(
+            this.resolvePath(value.value, from),
+            scope
+          );
+        }
+      });
+    }
+
+    // references are matched before the move, while unqualified names still resolve to oldPath
+    const rewrites: Var[] = [];
+
+    if (rewriteReferences) {
+      for (let current of this.#listVars()) {
+        let rewritten = false;
+        const copy = cloneDeep(current);
+
+        walkValues(copy, (value) => {
+          if (!isReference(value)) return;
+
+          const resolved = this.resolvePath(value.value, copy.scope);
+
+          if (this.#owner(resolved) === oldPath) {
+            // properties like ".colors.primary" are kept after the new path
+            value.value =
+              relativePath(newPath, copy.scope) +
+              resolved.slice(oldPath.length);
+            rewritten = true;
+          }
+        });
+
+        if (rewritten) rewrites.push(copy);
       }
+    }
 
-      if (forceOverwrite) {
-        this.vars[value.name] = { ...value };
+    if (!this.setVar({ ...variable, scope, name })) return false;
 
-        this.#setChanged(getPath(value.name, value.scope));
+    this.deleteVar(oldPath);
 
-        return true;
+    for (let i of rewrites) {
+      // the moved variable itself was already rewritten above
+      if (getPath(i.name, i.scope) === oldPath) continue;
+
+      this.#replaceVar(i);
+    }
+
+    return true;
+  }
+
+  /**
+   * Gets the paths a variable uses, from its definition
+   * @param {string}       path                       - The path to the variable
+   * @param {GraphOptions} [options]                  - Graph options
+   * @param {boolean}      [options.transitive=false] - Whether dependencies of dependencies should be included
+   * @returns {string[]} The paths of the variables used
+   */
+  getDependencies(
+    path: string,
+    { transitive = false }: GraphOptions = {}
+  ): string[] {
+    path = normalizePath(path);
+
+    const graph = this.getGraph();
+
+    if (!graph[path]) this.getRawVar(path);
+
+    return transitive ? walkGraph(graph, path) : [...graph[path]];
+  }
+
+  /**
+   * Gets the paths of the variables that use a path, from their definitions
+   * @param {string}       path                       - The path to the variable
+   * @param {GraphOptions} [options]                  - Graph options
+   * @param {boolean}      [options.transitive=false] - Whether dependents of dependents should be included
+   * @returns {string[]} The paths of the dependent variables
+   */
+  getDependents(
+    path: string,
+    { transitive = false }: GraphOptions = {}
+  ): string[] {
+    path = normalizePath(path);
+
+    const reversed = reverseGraph(this.getGraph());
+
+    if (transitive) return walkGraph(reversed, path);
+
+    return reversed[path] || [];
+  }
+
+  /**
+   * Gets the direct dependencies of every variable, from their definitions
+   * @returns {DependencyGraph} Mapping of every variable's path to the paths it uses
+   */
+  getGraph(): DependencyGraph {
+    const output: DependencyGraph = {};
+
+    for (let i of this.#listVars()) {
+      output[getPath(i.name, i.scope)] = this.#referencesOf(i);
+    }
+
+    // inherited variables resolve their references from the scope inheriting them
+    for (let i of Object.keys(this.scopes)) {
+      for (let e of this.#inheritedNames(i)) {
+        output[`${i}.${e}`] = this.#referencesOf(this.getRawVar(`${i}.${e}`));
       }
+    }
 
-      return false;
-    } else {
-      // variable goes to a scope
-      // successfully added or already existed
-      if (this.#addScope(value.scope, forceOverwrite)) {
-        if (!(<Scope>this.vars[value.scope])[value.name]) {
-          (<Scope>this.vars[value.scope])[value.name] = { ...value };
+    return output;
+  }
 
-          this.#setChanged(getPath(value.name, value.scope));
+  /**
+   * Gets the variables a Var uses, with patterns expanded to the variables they match
+   * @param {Var} variable - The variable to check
+   * @returns {string[]} The absolute paths of the used variables, in the order they appear
+   */
+  #referencesOf(variable: Var): string[] {
+    const path = getPath(variable.name, variable.scope);
+    const output = new Set<string>();
+
+    for (let i of getReferences(variable, (path, scope) =>
+      this.#referencedVar(path, scope)
+    )) {
+      for (let e of isPattern(i) ? this.#expandPattern(i, path) : [i]) {
+        output.add(e);
+      }
+    }
 
-          return true;
-        }
+    return [...output];
+  }
 
-        // variable at path exists and can't be overwritten
-        return false;
-      } else {
-        // couldn't add scope
-        return false;
+  /**
+   * Resolves a reference to the variable it uses, which contains the property for property references
+   * @param {string} path  - The referenced path
+   * @param {string} scope - The scope the path is relative to
+   * @returns {string} The absolute path of the variable
+   */
+  #referencedVar(path: string, scope: string): string {
+    const resolved = this.resolvePath(path, scope);
+
+    return this.#owner(resolved) ?? resolved;
+  }
+
+  /**
+   * Finds every dependency loop between variables, from their definitions
+   * @returns {string[][]} A closed path through every member of each loop, like ["var1", "var2", "var1"]
+   */
+  findCycles(): string[][] {
+    const graph = this.getGraph();
+    const output: string[][] = [];
+
+    for (let component of findComponents(graph)) {
+      const members = new Set(component);
+      const subgraph: DependencyGraph = {};
+
+      for (let i of component) {
+        subgraph[i] = graph[i].filter((e) => members.has(e));
+      }
+
+      // walk to every member in turn, then back to the start
+      const start = component[0];
+      const cycle = [start];
+      let current = start;
+
+      for (let i of [...component.slice(1), start]) {
+        if (i !== start && cycle.includes(i)) continue;
+
+        cycle.push(...(<string[]>findPath(subgraph, current, i)).slice(1));
+        current = i;
       }
+
+      output.push(cycle);
     }
+
+    return output;
   }
 
   /**
-   * Helper function for setting multiple variables at once
-   * @param {Var[]}   values - Array of variable data to pass to setVar
-   * @returns {boolean[]} Array of boolean representing whether each variable was added
+   * Finds the dependency loop a variable would close if it was set
+   * @param {Var} value - The variable to check
+   * @returns {string[] | null} A closed path from the variable back to itself, or null if there's no loop
    */
-  setVarBulk(...values: Var[]): boolean[] {
-    const output: boolean[] = [];
+  #findCycleThrough(value: Var): string[] | null {
+    const path = getPath(value.name, value.scope);
+    const graph = this.getGraph();
 
-    for (let i of values) {
-      output.push(this.setVar(i, false));
+    graph[path] = this.#referencesOf(value);
+
+    return findPath(graph, path, path);
+  }
+
+  /**
+   * Lists every Var in the tree
+   * @param {Vars | Scope} [scope=this.vars] - The scope to list the variables of, including nested scopes
+   * @returns {Var[]} All stored variables
+   */
+  #listVars(scope: Vars | Scope = this.vars): Var[] {
+    const output: Var[] = [];
+
+    for (let i of Object.values(scope)) {
+      if (isVar(i)) {
+        output.push(i);
+      } else {
+        output.push(...this.#listVars(i));
+      }
     }
 
     return output;
   }
 
+  /**
+   * Replaces a stored variable in place, keeping its dependents
+   * @param {Var} value - The new variable data, its path must already exist
+   */
+  #replaceVar(value: Var) {
+    this.#track(getPath(value.name, value.scope));
+
+    (<Scope>this.#getScope(value.scope))[value.name] = value;
+
+    this.#setChanged(getPath(value.name, value.scope));
+  }
+
+  /**
+   * Calls callback whenever the resolved value of a variable changes
+   * @param {string}           path                 - The path to the variable
+   * @param {Subscriber}       callback             - Called with the old and new values after each change
+   * @param {SubscribeOptions} [options]            - Subscription options
+   * @param {boolean}          [options.full=false] - Whether tables and list operations should be passed as full data
+   * @returns {Function} Removes the subscription when called
+   */
+  subscribe(
+    path: string,
+    callback: Subscriber,
+    { full = false }: SubscribeOptions = {}
+  ): () => void {
+    path = normalizePath(path);
+
+    const subscription = { callback, full };
+
+    if (!this.#subscribers[path]) this.#subscribers[path] = [];
+
+    this.#subscribers[path].push(subscription);
+
+    return () => {
+      const current = this.#subscribers[path] || [];
+      const index = current.indexOf(subscription);
+
+      if (index > -1) current.splice(index, 1);
+      if (current.length === 0) delete this.#subscribers[path];
+    };
+  }
+
+  /**
+   * Adds a listener for an event. The only event is "change", which is called once per change with every affected variable
+   * @param {string}         event    - The event to listen for
+   * @param {ChangeListener} listener - Called with the ChangeEvents of all affected variables
+   */
+  on(event: string, listener: ChangeListener) {
+    if (!this.#listeners[event]) {
+      throw new TypeError(`Unknown event "${event}"`);
+    }
+
+    this.#listeners[event].add(listener);
+  }
+
+  /**
+   * Removes a listener added with on
+   * @param {string}         event    - The event the listener was added for
+   * @param {ChangeListener} listener - The listener to remove
+   */
+  off(event: string, listener: ChangeListener) {
+    if (this.#listeners[event]) this.#listeners[event].delete(listener);
+  }
+
+  /**
+   * Runs a change, then notifies subscribers and listeners of everything it affected
+   * @param {Function} callback - Makes the change
+   * @returns The output of callback
+   */
+  #batch<T>(callback: () => T): T {
+    this.#pending = {};
+
+    try {
+      return callback();
+    } finally {
+      const pending = this.#pending;
+      this.#pending = null;
+      this.#dependents = null;
+
+      this.#emit(pending);
+    }
+  }
+
+  /**
+   * Records the current values of everything watched that would be affected by a change to path
+   * @param {string} path - The normalized path about to change
+   */
+  #track(path: string) {
+    const listening = this.#listeners.change.size > 0;
+
+    if (!this.#pending) return;
+    if (!listening && Object.keys(this.#subscribers).length === 0) return;
+
+    // variables created during the change are tracked when they're set, so the graph from before it is enough
+    if (!this.#dependents) this.#dependents = reverseGraph(this.getGraph());
+
+    const affected = new Set([path, ...walkGraph(this.#dependents, path)]);
+    const visit = (current: string) => {
+      for (let i of this.deps[current] || []) {
+        if (!affected.has(i)) {
+          affected.add(i);
+          visit(i);
+        }
+      }
+    };
+
+    // evaluated dependents can be found that aren't visible from definitions
+    visit(path);
+
+    for (let i of affected) {
+      const subscribers = this.#subscribers[i] || [];
+      const modes = new Set(subscribers.map((e) => e.full));
+
+      if (listening) modes.add(false);
+
+      for (let full of modes) {
+        const key = full ? `${i}-full` : i;
+
+        if (!(key in this.#pending)) {
+          const oldValue = this.#peek(i, full);
+
+          this.#pending[key] = { path: i, oldValue, newValue: oldValue, full };
+        }
+      }
+    }
+  }
+
+  /**
+   * Calls subscribers and listeners for the affected variables of a change
+   * @param {object} pending - The ChangeEvents recorded by #track, without new values
+   */
+  #emit(pending: { [key: string]: ChangeEvent } | null) {
+    if (!pending || Object.keys(pending).length === 0) return;
+
+    const events: ChangeEvent[] = [];
+    const errors: unknown[] = [];
+
+    // an error thrown by one callback doesn't stop the others
+    const notify = (callback: () => void) => {
+      try {
+        callback();
+      } catch (err) {
+        errors.push(err);
+      }
+    };
+
+    for (let i of Object.values(pending)) {
+      i.newValue = this.#peek(i.path, i.full);
+
+      if (isEqual(i.oldValue, i.newValue)) continue;
+
+      for (let e of [...(this.#subscribers[i.path] || [])]) {
+        if (e.full === i.full) notify(() => e.callback({ ...i }));
+      }
+
+      if (!i.full) events.push(i);
+    }
+
+    if (events.length > 0) {
+      for (let i of [...this.#listeners.change]) {
+        notify(() => i(events.map((e) => ({ ...e }))));
+      }
+    }
+
+    if (errors.length === 0) return;
+
+    const { onCallbackError } = this.options;
+
+    if (!onCallbackError) throw new CallbackError(errors);
+
+    errors.forEach((i) => onCallbackError(i));
+  }
+
+  /**
+   * Gets a variable's value for a ChangeEvent
+   * @param {string}  path - The normalized path to the variable
+   * @param {boolean} full - Whether tables should be fully evaluated
+   * @returns {Literal | FullData | undefined} The value, or undefined if it doesn't exist or can't be evaluated
+   */
+  #peek(path: string, full: boolean): Literal | FullData | undefined {
+    try {
+      return this.getVar(path, full);
+    } catch (err) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Drops all cached state for a path
+   * @param {string} path - The normalized path to forget
+   */
+  #forget(path: string) {
+    delete this.cache[path];
+    delete this.cache[`${path}-full`];
+    delete this.changed[path];
+    delete this.changed[`${path}-full`];
+    delete this.#contextCache[path];
+    delete this.#contextCache[`${path}-full`];
+    delete this.deps[path];
+
+    for (let i of Object.values(this.deps)) {
+      i.delete(path);
+    }
+  }
+
   /**
    * Evaluates a Var into a string or string[]
    * @param {Var}      value         - The value to evaluate
    * @param {string}   [origin=path] - The original var's path for circular dependency detection
    * @param {string[]} [parents=[]]  - List of parent paths to add to deps
+   * @param {EvalState} state        - State of the current getVar call
    * @returns {Literal} The evaluated value
    */
-  #evaluate(value: Var, origin?: Set<string>, parents: string[] = []): Literal {
+  #evaluate(
+    value: Var,
+    origin: Set<string> | undefined,
+    parents: string[] = [],
+    state: EvalState
+  ): Literal {
     if (!parents) parents = [];
 
     const thisPath = getPath(value.name, value.scope);
@@ -459,6 +3494,11 @@ export class UserVars {
 
     parents = [...parents, thisPath];
 
+    // inherited variables are invalidated if they're overridden, or the variable they come from changes
+    for (let i of this.#lookupVar(thisPath)?.via ?? []) {
+      this.#trackMissing(i, parents);
+    }
+
     if (!origin) {
       origin = new Set<string>();
     } else {
@@ -468,182 +3508,183 @@ export class UserVars {
     if (!origin.has(thisPath)) {
       origin.add(thisPath);
     } else {
-      return "[CIRCULAR DEPENDENCY]";
+      return this.#fail(
+        new CircularDependencyError(thisPath, parents),
+        "[CIRCULAR DEPENDENCY]",
+        parents,
+        state
+      );
     }
 
-    if (value.varType === "basic") {
-      if (
-        typeof value.value !== "string" &&
-        (!("type" in value.value) ||
-          !["literal", "reference", "expression"].includes(value.value.type))
-      ) {
-        throw new TypeError(
-          `Basic variable value must be of type Value (${value.scope}.${value.name})`
-        );
-      }
+    this.#assertValid(value);
+
+    const step: Omit<ExplainStep, "steps"> = {
+      kind: "variable",
+      path: thisPath,
+      detail: value.varType
+    };
+
+    if (state.trace) step.cached = this.#cached(thisPath, state) !== undefined;
+
+    return this.#traced(state, step, () =>
+      this.#checkValueType(
+        value,
+        this.#evaluateValue(value, <Set<string>>origin, parents, state),
+        parents,
+        state
+      )
+    );
+  }
+
+  /**
+   * Checks an evaluated value against the variable's valueType and constraints, converting it with the typed option
+   * @param {Var}       value   - The variable that was evaluated
+   * @param {Literal}   result  - The evaluated value
+   * @param {string[]}  parents - List of parent paths, ending with the variable
+   * @param {EvalState} state   - State of the current getVar call
+   * @returns {Literal} The checked value, or a sentinel if it doesn't match
+   */
+  #checkValueType(
+    value: Var,
+    result: Literal,
+    parents: string[],
+    state: EvalState
+  ): Literal {
+    const thisPath = parents[parents.length - 1];
+
+    // values that already contain sentinels aren't checked
+    if (!value.valueType || state.failed.has(thisPath)) return result;
+
+    const checked = coerceValue(
+      result,
+      value.valueType,
+      value.constraints || {}
+    );
 
+    if (!checked.error) return this.options.typed ? checked.value : result;
+
+    const message = `Variable ${thisPath} ${checked.error}`;
+
+    if (checked.constraint) {
+      return this.#fail(
+        new ConstraintError(message, thisPath, checked.constraint),
+        `[INVALID ${thisPath}]`,
+        parents,
+        state
+      );
+    }
+
+    return this.#fail(
+      new TypeMismatchError(message, thisPath),
+      `[NOT A ${value.valueType.toUpperCase()} ${thisPath}]`,
+      parents,
+      state
+    );
+  }
+
+  /**
+   * Evaluates the value of a variable by its varType, called by #evaluate
+   * @param {Var}       value   - The variable to evaluate
+   * @param {string}    origin  - For circular dependency detection, including the variable
+   * @param {string[]}  parents - List of parent paths, ending with the variable
+   * @param {EvalState} state   - State of the current getVar call
+   * @returns {Literal} The evaluated value
+   */
+  #evaluateValue(
+    value: Var,
+    origin: Set<string>,
+    parents: string[],
+    state: EvalState
+  ): Literal {
+    const thisPath = parents[parents.length - 1];
+
+    if (value.varType === "basic") {
       const basic = value as BasicVar;
 
       if (typeof basic.value === "string") return basic.value;
 
       if (basic.value.type === "literal") {
-        return basic.value.value;
+        return this.#readLiteral(basic.value, parents, state);
       }
 
-      return this.#followReference(basic.value, basic.scope, origin, parents);
+      return this.#followReference(
+        basic.value,
+        basic.scope,
+        origin,
+        parents,
+        state
+      );
     } else if (value.varType === "list") {
-      if (
-        !(value.value instanceof Array) ||
-        (<Array<Value | TableRow>>value.value).filter((i) => {
-          typeof i !== "string" &&
-            (!("type" in i) ||
-              !["literal", "reference", "expression"].includes(i.type));
-        }).length > 0
-      )
-        throw new TypeError(
-          `List variable value must be of type string[] (${value.scope}.${value.name})`
-        );
-
-      const output: string[] = [];
+      const output: Literal[] = [];
       const list = value as ListVar;
 
       list.value.forEach((e) => {
         if (typeof e === "string") {
           output.push(e);
         } else if (e.type === "literal") {
-          output.push(e.value);
+          output.push(this.#readLiteral(e, parents, state));
         } else {
           const current = this.#followReference(
             e,
             list.scope,
             <Set<string>>origin,
-            parents
-          );
-
-          if (current instanceof Array) {
-            output.push(...current);
-          } else if (current === "[MISSING REFERENCE]") {
-            output.push(`[MISSING ${e.value}]`);
-          } else {
-            output.push(current);
-          }
-        }
-      });
-
-      return output;
-    } else if (value.varType === "table") {
-      if (
-        !("priority" in value) ||
-        !["first", "last"].includes((<TableVar>value).priority)
-      )
-        throw new TypeError(
-          `Table "variable" priority field must be either "first" or "last" (${value.scope}.${value.name}))`
-        );
-      if (
-        !("default" in value) ||
-        (typeof (<TableVar>value).default !== "string" &&
-          !["literal", "reference", "expression"].includes(
-            (<TypedValue>(<TableVar>value).default).type
-          ))
-      )
-        throw new TypeError(
-          `Table "default" field must be of type Value (${value.scope}.${value.name})`
-        );
-      if (
-        !(value.value instanceof Array) ||
-        (<Array<Value | TableRow>>value.value).filter((i) => {
-          return typeof i === "string" || "type" in i;
-        }).length > 0
-      ) {
-        throw new TypeError(
-          `Table variable values must be of type TableRow[] (${value.scope}.${value.name})`
-        );
-      }
-
-      const table = value as TableVar;
+            parents,
+            state
+          );
 
-      if (table.priority === "first") {
-        for (let i = 0; i < table.value.length; i++) {
-          const row = table.value[i];
-          let out = true;
+          if (current instanceof Array) {
+            this.#addStep(state, {
+              kind: "flatten",
+              reference: e.value,
+              value: current
+            });
 
-          for (let e of row.conditions) {
-            if (!this.#evalCondition(e, table.scope, origin, parents, false)) {
-              out = false;
-              break;
-            }
+            output.push(...current);
+          } else if (current === "[MISSING REFERENCE]") {
+            output.push(`[MISSING ${e.value}]`);
+          } else {
+            output.push(current);
           }
+        }
+      });
 
-          if (out) {
-            const output = table.value[i].output;
+      return output;
+    } else if (value.varType === "table") {
+      const table = value as TableVar;
+      const readOutput = (output: Value) => {
+        if (typeof output === "string") return output;
 
-            if (typeof output === "string") return output;
+        if (output.type === "literal") {
+          return this.#readLiteral(output, parents, state);
+        }
 
-            if (output.type === "literal") {
-              return output.value;
-            }
+        return this.#followReference(
+          output,
+          table.scope,
+          origin,
+          parents,
+          state
+        );
+      };
 
-            return this.#followReference(output, table.scope, origin, parents);
+      if (table.priority === "first") {
+        for (let i = 0; i < table.value.length; i++) {
+          if (this.#evalRow(table, i, origin, parents, state)) {
+            return readOutput(table.value[i].output);
           }
         }
       } else {
         for (let i = table.value.length - 1; i > -1; i--) {
-          const row = table.value[i];
-          let out = true;
-
-          for (let e of row.conditions) {
-            if (!this.#evalCondition(e, table.scope, origin, parents, false)) {
-              out = false;
-              break;
-            }
-          }
-
-          if (out) {
-            const output = table.value[i].output;
-
-            if (typeof output === "string") return output;
-
-            if (output.type === "literal") {
-              return output.value;
-            }
-
-            return this.#followReference(output, table.scope, origin, parents);
+          if (this.#evalRow(table, i, origin, parents, state)) {
+            return readOutput(table.value[i].output);
           }
         }
       }
 
-      if (typeof table.default === "string") return table.default;
-
-      if (table.default.type === "literal") {
-        return table.default.value;
-      }
-
-      return this.#followReference(table.default, table.scope, origin, parents);
+      return this.#traced(state, { kind: "default" }, () =>
+        readOutput(table.default)
+      );
     } else if (value.varType === "expression") {
-      if (
-        !("vars" in value) ||
-        Object.values((<ExpressionVar>value).vars).filter((i) => {
-          typeof i !== "string" &&
-            (!("type" in i) ||
-              !["literal", "reference", "expression"].includes(i.type));
-        }).length > 0
-      )
-        throw new TypeError(
-          `Expression "vars" field must be of type {[name: string]: Value} (${value.scope}.${value.name})`
-        );
-
-      if (
-        "functions" in value &&
-        (<Value[]>(<ExpressionVar>value).functions).filter((i) => {
-          typeof i !== "string" &&
-            (!("type" in i) ||
-              !["literal", "reference", "expression"].includes(i.type));
-        }).length > 0
-      )
-        throw new TypeError(
-          `Expression "functions" field must be of type Value[] (${value.scope}.${value.name})`
-        );
-
       let expr = value as ExpressionVar;
       let toParse: string;
 
@@ -656,11 +3697,34 @@ export class UserVars {
           expr.value,
           expr.scope,
           origin,
-          parents
+          parents,
+          state
         );
 
         if (followed instanceof Array) {
-          return `[LIST ${expr.value.value}]`;
+          return this.#fail(
+            new TypeMismatchError(
+              `Expression value ${expr.value.value} resolved to a list (${thisPath})`,
+              thisPath
+            ),
+            `[LIST ${expr.value.value}]`,
+            parents,
+            state
+          );
+        }
+
+        if (typeof followed !== "string") {
+          return this.#fail(
+            new TypeMismatchError(
+              `Expression value ${expr.value.value} resolved to a ${
+                followed === null ? "null" : typeof followed
+              } (${thisPath})`,
+              thisPath
+            ),
+            `[NOT A STRING ${expr.value.value}]`,
+            parents,
+            state
+          );
         }
 
         toParse = followed;
@@ -677,7 +3741,13 @@ export class UserVars {
           } else if (i.type === "literal") {
             functions += `${i.value}; `;
           } else {
-            const func = this.#followReference(i, expr.scope, origin, parents);
+            const func = this.#followReference(
+              i,
+              expr.scope,
+              origin,
+              parents,
+              state
+            );
 
             if (func instanceof Array) {
               for (let e of func) {
@@ -697,123 +3767,677 @@ export class UserVars {
       }
 
       toParse = `${functions}${toParse}`;
-      let parsed = this.parser.parse(toParse);
-
-      let vars = parsed.variables();
-      let input: { [name: string]: string | number[] } = {};
+      let parsed = this.#parseExpression(toParse, thisPath);
 
       // evaluate all variables to be passed into parsed.evaluate()
-      for (let i of Object.keys(expr.vars)) {
-        if (!vars.includes(i)) continue;
+      const { input, missing } = this.#expressionInput(
+        expr.vars,
+        parsed.variables(),
+        expr.scope,
+        origin,
+        parents,
+        state
+      );
 
-        const current = expr.vars[i];
+      if (missing) return `[MISSING ${missing}]`;
 
-        if (typeof current === "string") {
-          input[i] = current;
-          continue;
-        }
+      return this.#runExpression(parsed, input, toParse, thisPath, state);
+    } else if (value.varType === "listOp") {
+      return <Literal>(
+        this.#evaluateListOp(<ListOpVar>value, origin, parents, false, state)
+      );
+    } else if (value.varType === "aggregate") {
+      return this.#evaluateAggregate(
+        <AggregateVar>value,
+        origin,
+        parents,
+        state
+      );
+    } else if (value.varType === "object") {
+      return this.#evaluateObject(
+        <ObjectValue>value.value,
+        value.scope,
+        origin,
+        parents,
+        state
+      );
+    } else if (value.varType === "template") {
+      const template = parseTemplate(<string>value.value);
+      let output = template.text[0];
+
+      template.tokens.forEach((token, i) => {
+        output += this.#resolvePlaceholder(
+          token,
+          value.scope,
+          <Set<string>>origin,
+          parents,
+          state
+        );
+        output += template.text[i + 1];
+      });
 
-        if (current.type === "literal") {
-          input[i] = current.value;
-          continue;
-        }
+      return output;
+    }
 
-        const followed = this.#followReference(
-          current,
-          expr.scope,
-          origin,
-          parents
-        );
+    return this.#fail(
+      new TypeMismatchError(
+        `Variable type "${value.varType}" is not implemented (${thisPath})`,
+        thisPath
+      ),
+      "[NOT IMPLEMENTED]",
+      parents,
+      state
+    );
+  }
 
-        if (followed === "[MISSING REFERENCE]") return `[MISSING ${current}]`;
+  /**
+   * Checks whether every condition of a table row is true, stopping at the first false one
+   * @param {TableVar}  table   - The table containing the row
+   * @param {number}    index   - The index of the row
+   * @param {string}    origin  - For circular dependency detection
+   * @param {string[]}  parents - List of parent paths to pass to #evaluate
+   * @param {EvalState} state   - State of the current getVar call
+   * @returns {boolean} Whether the row's output is used
+   */
+  #evalRow(
+    table: TableVar,
+    index: number,
+    origin: Set<string>,
+    parents: string[],
+    state: EvalState
+  ): boolean {
+    return this.#traced(
+      state,
+      { kind: "row", detail: `${index}` },
+      () =>
+        table.value[index].conditions.every(
+          (e) =>
+            <boolean>(
+              this.#evalCondition(e, table.scope, origin, parents, false, state)
+            )
+        ),
+      (step, passed) => (step.passed = passed)
+    );
+  }
 
-        if (typeof followed === "string") {
-          input[i] = followed;
-        } else {
-          input[i] = followed.map((e) => parseFloat(e));
-        }
+  /**
+   * Resolves a template placeholder into a string
+   * @param {TemplateToken} token   - The placeholder to resolve
+   * @param {string}        scope   - The scope paths will be evaluated relative to
+   * @param {string}        origin  - For circular dependency detection
+   * @param {string[]}      parents - List of parent paths to pass to #evaluate
+   * @param {EvalState}     state   - State of the current getVar call
+   * @returns {string} The resolved value, with lists joined
+   */
+  #resolvePlaceholder(
+    token: TemplateToken,
+    scope: string,
+    origin: Set<string>,
+    parents: string[],
+    state: EvalState
+  ): string {
+    if (isLocal(token.path)) {
+      if (
+        token.fallback !== undefined &&
+        this.#readLocal(token.path, parents, state) === undefined
+      ) {
+        return token.fallback;
       }
+    } else if (!isPattern(token.path)) {
+      const path = this.#resolve(token.path, scope, parents);
 
-      // @ts-ignore
-      const evaluated = parsed.evaluate(input).toString();
+      if (token.fallback !== undefined && !this.#owner(path)) {
+        this.#trackMissing(path, parents);
 
-      if (evaluated.match(/,/g)) {
-        return evaluated.split(",");
+        return token.fallback;
       }
+    }
+
+    const resolved = this.#followReference(
+      { value: token.path, type: "reference" },
+      scope,
+      origin,
+      parents,
+      state
+    );
+
+    if (resolved === "[MISSING REFERENCE]") return `[MISSING ${token.path}]`;
+
+    return toText(resolved, token.join);
+  }
+
+  /**
+   * Resolves a path like resolvePath, tracking the variables it skipped over as missing
+   * so parents are invalidated if one of them is created and shadows the result
+   * @param {string}   path    - The path to resolve
+   * @param {string}   scope   - The scope the path is relative to
+   * @param {string[]} parents - The paths being evaluated
+   * @returns {string} The absolute path
+   */
+  #resolve(path: string, scope: string, parents: string[]): string {
+    const resolved = this.resolvePath(path, scope);
+
+    for (let i of lookupPaths(path, scope)) {
+      if (i === resolved) break;
+
+      this.#trackMissing(i, parents);
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Records parents as dependents of a missing path, so they're invalidated if it's created
+   * @param {string}   path    - The normalized missing path
+   * @param {string[]} parents - The paths being evaluated
+   */
+  #trackMissing(path: string, parents: string[]) {
+    if (!this.deps[path]) this.deps[path] = new Set();
+
+    for (let i of parents) {
+      this.deps[path].add(i);
+    }
+  }
+
+  /**
+   * Throws error in strict mode, otherwise records that the evaluated paths contain a sentinel
+   * @param {UserVarsError} error    - The error to throw
+   * @param {string}        sentinel - The string to return instead of throwing
+   * @param {string[]}      parents  - The paths being evaluated
+   * @param {EvalState}     state    - State of the current getVar call
+   * @returns {string} sentinel
+   */
+  #fail(
+    error: UserVarsError,
+    sentinel: string,
+    parents: string[],
+    state: EvalState
+  ): string {
+    if (state.strict) throw error;
+
+    this.#addStep(state, {
+      kind: "error",
+      detail: error.name,
+      error: error.message,
+      value: sentinel
+    });
+
+    for (let i of parents) {
+      this.#sentinels.add(i);
+      this.#sentinels.add(`${i}-full`);
+      state.failed.add(i);
+    }
+
+    return sentinel;
+  }
+
+  /**
+   * Runs callback with a new step of the explain tree as the one its steps are added to, when explaining
+   * @param {EvalState} state    - State of the current getVar call
+   * @param {object}    step     - The fields of the step
+   * @param {Function}  callback - Evaluates the step
+   * @param {Function}  [finish] - Records the result on the step, as its value by default
+   * @returns {T} The result of callback
+   */
+  #traced<T>(
+    state: EvalState,
+    step: Omit<ExplainStep, "steps">,
+    callback: () => T,
+    finish: (step: ExplainStep, result: T) => void = (step, result) =>
+      (step.value = <Literal>(<unknown>result))
+  ): T {
+    if (!state.trace) return callback();
+
+    const parent = state.trace;
+    const current: ExplainStep = { ...step, steps: [] };
+
+    parent.steps.push(current);
+    state.trace = current;
+
+    try {
+      const result = callback();
+
+      finish(current, result);
+
+      return result;
+    } catch (err) {
+      current.error = err instanceof Error ? err.message : `${err}`;
+
+      throw err;
+    } finally {
+      state.trace = parent;
+    }
+  }
 
-      return evaluated;
+  /**
+   * Adds a step without steps of its own to the explain tree, when explaining
+   * @param {EvalState} state - State of the current getVar call
+   * @param {object}    step  - The fields of the step
+   */
+  #addStep(state: EvalState, step: Omit<ExplainStep, "steps">) {
+    state.trace?.steps.push({ ...step, steps: [] });
+  }
+
+  /**
+   * Reads the cached value getVar would return without evaluating
+   * @param {string}    key   - The cache key, the path or the path with "-full"
+   * @param {EvalState} state - State of the current getVar call, for its context and error mode
+   * @returns {Literal | FullData | undefined} The cached value, or undefined if it needs to be evaluated
+   */
+  #cached(key: string, state: EvalState): Literal | FullData | undefined {
+    if (this.changed[key] || (state.strict && this.#sentinels.has(key))) {
+      return undefined;
+    }
+
+    // typed values like 0 or false are cached too
+    if (this.cache.hasOwnProperty(key)) return this.cache[key];
+
+    // values that read $context are only reused for the same values of what they read
+    return this.#contextCache[key]?.find((i) =>
+      Object.keys(i.reads).every((e) =>
+        isEqual(i.reads[e], getProperty(state.context, e ? e.split(".") : []))
+      )
+    )?.value;
+  }
+
+  /**
+   * Reads a literal, converting it to its valueType with the typed option
+   * @param {TypedValue} literal - The literal to read
+   * @param {string[]}   parents - The paths being evaluated
+   * @param {EvalState}  state   - State of the current getVar call
+   * @returns {Literal} The value, or a sentinel if it can't be converted
+   */
+  #readLiteral(
+    literal: TypedValue,
+    parents: string[],
+    state: EvalState
+  ): Literal {
+    const { value, valueType = "string" } = literal;
+
+    if (!this.options.typed || valueType === "string") return value;
+
+    let converted: Literal | undefined;
+
+    if (valueType === "number") {
+      converted = value.trim() && isFinite(+value) ? +value : undefined;
+    } else if (valueType === "boolean") {
+      converted =
+        value === "true" ? true : value === "false" ? false : undefined;
+    } else if (valueType === "null") {
+      converted = null;
+    } else if (valueType === "json") {
+      try {
+        converted = JSON.parse(value);
+      } catch (err) {
+        converted = undefined;
+      }
     }
 
-    return "[NOT IMPLEMENTED]";
+    if (converted !== undefined) return converted;
+
+    const thisPath = parents[parents.length - 1];
+
+    return this.#fail(
+      new TypeMismatchError(
+        `Literal "${value}" is not a valid ${valueType} (${thisPath})`,
+        thisPath
+      ),
+      `[NOT A ${valueType.toUpperCase()} ${value}]`,
+      parents,
+      state
+    );
   }
 
   /**
-   * Evaluates a condition from a table row, returning true or false
-   * @param {Condition} cond    - The condition to evaluate
+   * Resolves the vars used by an expression into the input for parsed.evaluate(), lists become arrays of numbers
+   * @param {object}    vars    - Mapping of names to Values, from the expression's vars field
+   * @param {string[]}  used    - Names of the variables used in the expression, others aren't resolved
    * @param {string}    scope   - The scope paths will be evaluated relative to
    * @param {string}    origin  - For circular dependency detection
    * @param {string[]}  parents - List of parent paths to pass to #evaluate
-   * @param {boolean}   full    - Whether operand values should be returned
-   * @return {boolean} Whether the condition passes
+   * @param {EvalState} state   - State of the current getVar call
+   * @returns {{input: ExpressionInput, paths: object, missing: string | null}} The input, the reference path of each referenced name, and the first missing reference if there is one
+   */
+  #expressionInput(
+    vars: { [name: string]: Value },
+    used: string[],
+    scope: string,
+    origin: Set<string>,
+    parents: string[],
+    state: EvalState
+  ): {
+    input: ExpressionInput;
+    paths: { [name: string]: string };
+    missing: string | null;
+  } {
+    const input: ExpressionInput = {};
+    const paths: { [name: string]: string } = {};
+
+    for (let i of Object.keys(vars)) {
+      if (!used.includes(i)) continue;
+
+      const current = vars[i];
+
+      if (typeof current === "string") {
+        input[i] = current;
+        continue;
+      }
+
+      if (current.type === "literal") {
+        input[i] = this.#readLiteral(current, parents, state);
+        continue;
+      }
+
+      const followed = this.#followReference(
+        current,
+        scope,
+        origin,
+        parents,
+        state
+      );
+
+      if (followed === "[MISSING REFERENCE]") {
+        return { input, paths, missing: current.value };
+      }
+
+      if (current.type !== "expression") paths[i] = current.value;
+
+      if (this.options.typed || !(followed instanceof Array)) {
+        input[i] = followed;
+      } else {
+        input[i] = followed.map((e) => parseFloat(<string>e));
+      }
+    }
+
+    return { input, paths, missing: null };
+  }
+
+  /**
+   * Parses an expression with the parser for its scope, wrapping parser errors in ExpressionError
+   * @param {string} expression - The expression to parse
+   * @param {string} path       - The path of the variable containing the expression
+   * @returns {Expression} The parsed expression
+   */
+  #parseExpression(expression: string, path: string): Expression {
+    const parser = this.#parserFor(splitPath(path).scope);
+
+    try {
+      return parser.parse(expression);
+    } catch (err) {
+      throw new ExpressionError(path, expression, <Error>err);
+    }
+  }
+
+  /**
+   * Evaluates a parsed expression into a string or string[], or its native result with the typed option,
+   * wrapping errors in ExpressionError
+   * @param {Expression} parsed     - The parsed expression
+   * @param {object}     input      - Values for the variables used in the expression
+   * @param {string}     expression - The source of the expression
+   * @param {string}     path       - The path of the variable containing the expression
+   * @param {EvalState}  state      - State of the current getVar call
+   * @returns {Literal} The evaluated value
+   */
+  #runExpression(
+    parsed: Expression,
+    input: ExpressionInput,
+    expression: string,
+    path: string,
+    state: EvalState
+  ): Literal {
+    return this.#traced(
+      state,
+      { kind: "expression", detail: expression, input },
+      () => this.#runParsed(parsed, input, expression, path)
+    );
+  }
+
+  /**
+   * Evaluates a parsed expression for #runExpression, which adds it to the explain tree
+   * @param {Expression} parsed     - The parsed expression
+   * @param {object}     input      - Values for the variables used in the expression
+   * @param {string}     expression - The source of the expression
+   * @param {string}     path       - The path of the variable containing the expression
+   * @returns {Literal} The evaluated value
+   */
+  #runParsed(
+    parsed: Expression,
+    input: ExpressionInput,
+    expression: string,
+    path: string
+  ): Literal {
+    let evaluated: string;
+
+    try {
+      // @ts-ignore
+      const result = parsed.evaluate(input);
+
+      if (this.options.typed) {
+        if (typeof result === "function") {
+          throw new TypeError("Expression resolved to a function");
+        }
+
+        return result === undefined ? null : result;
+      }
+
+      evaluated = result.toString();
+    } catch (err) {
+      throw new ExpressionError(path, expression, <Error>err);
+    }
+
+    if (evaluated.match(/,/g)) {
+      return evaluated.split(",");
+    }
+
+    return evaluated;
+  }
+
+  /**
+   * Evaluates a condition or condition group from a table row, returning true or false
+   * @param {ConditionNode} cond    - The condition to evaluate
+   * @param {string}        scope   - The scope paths will be evaluated relative to
+   * @param {string}        origin  - For circular dependency detection
+   * @param {string[]}      parents - List of parent paths to pass to #evaluate
+   * @param {boolean}       full    - Whether the evaluated ConditionNodeData should be returned, without short-circuiting groups
+   * @param {EvalState}     state   - State of the current getVar call
+   * @return {boolean | ConditionNodeData} Whether the condition passes, or its full data
    */
   #evalCondition(
-    cond: Condition,
+    cond: ConditionNode,
+    scope: string,
+    origin: Set<string>,
+    parents: string[],
+    full: boolean,
+    state: EvalState
+  ): boolean | ConditionNodeData {
+    let detail: string;
+
+    if (isConditionGroup(cond)) {
+      detail = cond.not ? "not" : cond.all ? "all" : "any";
+    } else if (isExpressionCondition(cond)) {
+      detail = "expression";
+    } else {
+      detail = cond.comparison;
+    }
+
+    return this.#traced(
+      state,
+      { kind: "condition", detail },
+      () => this.#evalConditionNode(cond, scope, origin, parents, full, state),
+      (step, data) =>
+        (step.passed = typeof data === "boolean" ? data : data.passed)
+    );
+  }
+
+  /**
+   * Evaluates a condition for #evalCondition, which adds it to the explain tree
+   * @param {ConditionNode} cond    - The condition to evaluate
+   * @param {string}        scope   - The scope paths will be evaluated relative to
+   * @param {string}        origin  - For circular dependency detection
+   * @param {string[]}      parents - List of parent paths to pass to #evaluate
+   * @param {boolean}       full    - Whether the evaluated ConditionNodeData should be returned
+   * @param {EvalState}     state   - State of the current getVar call
+   * @return {boolean | ConditionNodeData} Whether the condition passes, or its full data
+   */
+  #evalConditionNode(
+    cond: ConditionNode,
     scope: string,
     origin: Set<string>,
     parents: string[],
-    full: boolean
-  ): boolean | { output: boolean; val1: Literal; val2: Literal } {
+    full: boolean,
+    state: EvalState
+  ): boolean | ConditionNodeData {
+    const evalChild = (child: ConditionNode) =>
+      this.#evalCondition(child, scope, origin, parents, full, state);
+    const passed = (data: boolean | ConditionNodeData) =>
+      typeof data === "boolean" ? data : data.passed;
+
+    if (isConditionGroup(cond)) {
+      if (cond.not) {
+        const data = evalChild(cond.not);
+
+        if (!full) return !data;
+
+        return { not: <ConditionNodeData>data, passed: !passed(data) };
+      }
+
+      if (!full) {
+        // every and some stop at the first condition that decides the group
+        return cond.all
+          ? cond.all.every(evalChild)
+          : (cond.any || []).some(evalChild);
+      }
+
+      if (cond.all) {
+        const data = <ConditionNodeData[]>cond.all.map(evalChild);
+
+        return { all: data, passed: data.every(passed) };
+      }
+
+      const data = <ConditionNodeData[]>(cond.any || []).map(evalChild);
+
+      return { any: data, passed: data.some(passed) };
+    }
+
+    if (isExpressionCondition(cond)) {
+      const thisPath = parents[parents.length - 1];
+      const parsed = this.#parseExpression(cond.expression, thisPath);
+      const { input, paths, missing } = this.#expressionInput(
+        cond.vars,
+        parsed.variables(),
+        scope,
+        origin,
+        parents,
+        state
+      );
+      let output = false;
+
+      // a missing input fails the condition
+      if (!missing) {
+        try {
+          // @ts-ignore
+          output = !!parsed.evaluate(input);
+        } catch (err) {
+          throw new ExpressionError(thisPath, cond.expression, <Error>err);
+        }
+
+        this.#addStep(state, {
+          kind: "expression",
+          detail: cond.expression,
+          input,
+          value: output
+        });
+      }
+
+      if (!full) return output;
+
+      return {
+        expression: cond.expression,
+        vars: input,
+        varPaths: paths,
+        passed: output
+      };
+    }
+
     let val1: Literal;
     let val2: Literal;
+    let val1Path = "";
+    let val2Path = "";
 
     if (typeof cond.val1 === "string") {
       val1 = cond.val1;
     } else if (cond.val1.type === "literal") {
-      val1 = cond.val1.value;
+      val1 = this.#readLiteral(cond.val1, parents, state);
     } else {
-      val1 = this.#followReference(cond.val1, scope, origin, parents);
+      val1 = this.#followReference(cond.val1, scope, origin, parents, state);
+      val1Path = cond.val1.value;
     }
 
-    if (typeof cond.val2 === "string") {
-      val2 = cond.val2;
+    if (cond.val2 === undefined || typeof cond.val2 === "string") {
+      val2 = cond.val2 ?? "";
     } else if (cond.val2.type === "literal") {
-      val2 = cond.val2.value;
+      val2 = this.#readLiteral(cond.val2, parents, state);
     } else {
-      val2 = this.#followReference(cond.val2, scope, origin, parents);
+      val2 = this.#followReference(cond.val2, scope, origin, parents, state);
+      val2Path = cond.val2.value;
     }
 
-    if (cond.comparison === "eq") {
-      if (!comparisons.eq(val1, val2)) {
-        return !full ? false : { output: false, val1, val2 };
-      }
-    } else if (cond.comparison === "lt") {
-      if (!comparisons.lt(val1, val2)) {
-        return !full ? false : { output: false, val1, val2 };
-      }
-    } else if (cond.comparison === "gt") {
-      if (!comparisons.gt(val1, val2)) {
-        return !full ? false : { output: false, val1, val2 };
-      }
-    } else if (cond.comparison === "in") {
-      if (val2 instanceof Array) {
-        if (!comparisons.in(val1, val2)) {
-          return !full ? false : { output: false, val1, val2 };
-        }
-      } else {
-        // type mismatch
-        return !full ? false : { output: false, val1, val2 };
+    let output = comparisons[cond.comparison](val1, val2);
+
+    // with the typed option, strings aren't converted to numbers
+    if (
+      this.options.typed &&
+      numericComparisons.includes(cond.comparison) &&
+      !(
+        typeof val1 === "number" &&
+        (cond.comparison === "between"
+          ? val2 instanceof Array && val2.every((i) => typeof i === "number")
+          : typeof val2 === "number")
+      )
+    ) {
+      const thisPath = parents[parents.length - 1];
+      const error = new TypeMismatchError(
+        `Comparison "${cond.comparison}" needs numbers (${thisPath})`,
+        thisPath
+      );
+
+      if (state.strict) throw error;
+
+      this.#addStep(state, {
+        kind: "error",
+        detail: error.name,
+        error: error.message,
+        value: false
+      });
+
+      // the condition fails without a sentinel, so valueType is still checked, but throw mode re-evaluates
+      for (let i of parents) {
+        this.#sentinels.add(i);
+        this.#sentinels.add(`${i}-full`);
       }
+
+      output = false;
     }
 
-    return !full ? true : { output: true, val1, val2 };
+    if (!full) return output;
+
+    return {
+      val1,
+      val1Path,
+      val2,
+      val2Path,
+      comparison: cond.comparison,
+      passed: output
+    };
   }
 
   /**
    * Evaluates and returns full data of a table, including all row outputs and condition operands
-   * @param {TableVar} table - Table to evaluate
+   * @param {TableVar}  table - Table to evaluate
+   * @param {EvalState} state - State of the current getVar call
    * @returns {TableData} The fully evaluated table data
    */
-  #evaluateFull(table: TableVar): TableData {
+  #evaluateFull(table: TableVar, state: EvalState): TableData {
     const output = {
       output: "",
       outputPath: "",
@@ -824,6 +4448,8 @@ export class UserVars {
       priority: table.priority
     } as TableData;
 
+    this.#assertValid(table);
+
     const thisPath = getPath(table.name, table.scope);
     const origin = new Set<string>();
     origin.add(thisPath);
@@ -841,29 +4467,13 @@ export class UserVars {
       let out = true;
 
       for (let e of row.conditions) {
-        const cond = <{ output: boolean; val1: Literal; val2: Literal }>(
-          this.#evalCondition(e, table.scope, origin, parents, true)
+        const cond = <ConditionNodeData>(
+          this.#evalCondition(e, table.scope, origin, parents, true, state)
         );
-        let val1Path = "";
-        let val2Path = "";
-
-        if (typeof e.val1 !== "string" && e.val1.type !== "literal") {
-          val1Path = e.val1.value;
-        }
-
-        if (typeof e.val2 !== "string" && e.val2.type !== "literal") {
-          val2Path = e.val2.value;
-        }
 
-        rowData.conditions.push({
-          val1: cond.val1,
-          val1Path,
-          val2: cond.val2,
-          val2Path,
-          comparison: e.comparison
-        });
+        rowData.conditions.push(cond);
 
-        if (!cond.output) {
+        if (!cond.passed) {
           out = false;
         }
       }
@@ -874,13 +4484,14 @@ export class UserVars {
       if (typeof row.output === "string") {
         rowOut = row.output;
       } else if (row.output.type === "literal") {
-        rowOut = row.output.value;
+        rowOut = this.#readLiteral(row.output, parents, state);
       } else {
         rowOut = this.#followReference(
           row.output,
           table.scope,
           origin,
-          parents
+          parents,
+          state
         );
         rowOutPath = row.output.value;
       }
@@ -904,13 +4515,14 @@ export class UserVars {
     if (typeof table.default === "string") {
       defaultVal = table.default;
     } else if (table.default.type === "literal") {
-      defaultVal = table.default.value;
+      defaultVal = this.#readLiteral(table.default, parents, state);
     } else {
       defaultVal = this.#followReference(
         table.default,
         table.scope,
         origin,
-        parents
+        parents,
+        state
       );
       defaultPath = table.default.value;
     }
@@ -925,19 +4537,319 @@ export class UserVars {
         output.outputPath = output.defaultPath;
     }
 
+    output.output = this.#checkValueType(table, output.output, parents, state);
+
+    return output;
+  }
+
+  /**
+   * Evaluates a list operation by running its source through each step
+   * @param {ListOpVar} list    - The variable to evaluate
+   * @param {string}    origin  - For circular dependency detection, including the variable
+   * @param {string[]}  parents - List of parent paths, ending with the variable
+   * @param {boolean}   full    - Whether the ListOpData of every step should be returned
+   * @param {EvalState} state   - State of the current getVar call
+   * @returns {Literal | ListOpData} The output of the last step, or the full data
+   */
+  #evaluateListOp(
+    list: ListOpVar,
+    origin: Set<string>,
+    parents: string[],
+    full: boolean,
+    state: EvalState
+  ): Literal | ListOpData {
+    const thisPath = parents[parents.length - 1];
+    const source = this.#readValue(
+      list.value,
+      list.scope,
+      origin,
+      parents,
+      state
+    );
+    const output: ListOpData = {
+      source,
+      sourcePath: isReference(list.value) ? list.value.value : "",
+      steps: [],
+      output: source
+    };
+
+    if (!(source instanceof Array)) {
+      output.output = state.failed.has(thisPath)
+        ? source
+        : this.#fail(
+            new TypeMismatchError(
+              `List operation source resolved to a ${
+                source === null ? "null" : typeof source
+              } (${thisPath})`,
+              thisPath
+            ),
+            `[NOT A LIST ${
+              typeof list.value === "string" ? list.value : list.value.value
+            }]`,
+            parents,
+            state
+          );
+    } else {
+      let items: Literal[] = source;
+      // runs callback for each item, with $item and $index bound
+      const forEach = <T>(callback: (item: Literal) => T) =>
+        items.map((value, index) => {
+          state.item = { value, index };
+
+          const result = callback(value);
+
+          delete state.item;
+
+          return result;
+        });
+
+      for (let step of list.steps) {
+        this.#traced(state, { kind: "step", detail: step.op }, () => {
+          const data: ListStepData = { op: step.op, output: "" };
+
+          if (step.op === "filter") {
+            const passed = forEach((item) =>
+              this.#evalCondition(
+                <ConditionNode>step.condition,
+                list.scope,
+                origin,
+                parents,
+                full,
+                state
+              )
+            );
+
+            if (full) data.conditions = <ConditionNodeData[]>passed;
+
+            items = items.filter((e, i) =>
+              full ? (<ConditionNodeData>passed[i]).passed : <boolean>passed[i]
+            );
+          } else if (step.op === "map" && step.template !== undefined) {
+            const template = parseTemplate(step.template);
+
+            items = forEach(() => {
+              let text = template.text[0];
+
+              template.tokens.forEach((token, i) => {
+                text += this.#resolvePlaceholder(
+                  token,
+                  list.scope,
+                  origin,
+                  parents,
+                  state
+                );
+                text += template.text[i + 1];
+              });
+
+              return text;
+            });
+          } else if (step.op === "map") {
+            const expression = <string>step.expression;
+            const parsed = this.#parseExpression(expression, thisPath);
+
+            items = forEach(() => {
+              const { input, missing } = this.#expressionInput(
+                step.vars || {},
+                parsed.variables(),
+                list.scope,
+                origin,
+                parents,
+                state
+              );
+
+              if (missing) return `[MISSING ${missing}]`;
+
+              return this.#runExpression(
+                parsed,
+                input,
+                expression,
+                thisPath,
+                state
+              );
+            });
+          } else if (step.op === "sort") {
+            const direction = step.order === "desc" ? -1 : 1;
+
+            items = [...items].sort((a, b) => {
+              if (step.numeric) return (toNumber(a) - toNumber(b)) * direction;
+
+              const textA = toText(a);
+              const textB = toText(b);
+
+              return textA === textB ? 0 : (textA < textB ? -1 : 1) * direction;
+            });
+          } else if (step.op === "unique") {
+            items = items.filter((e, i) => !has(items.slice(0, i), e));
+          } else if (step.op === "slice") {
+            items = items.slice(step.start, step.end);
+          } else if (step.op === "reverse") {
+            items = [...items].reverse();
+          } else if (step.op === "flatten") {
+            items = items.reduce<Literal[]>(
+              (a, e) => a.concat(e instanceof Array ? e : [e]),
+              []
+            );
+          }
+
+          if (step.op === "join") {
+            data.output = toText(items, step.separator);
+          } else if (step.op === "count") {
+            data.output = this.options.typed ? items.length : `${items.length}`;
+          } else {
+            data.output = items;
+          }
+
+          output.steps.push(data);
+          output.output = data.output;
+
+          return data.output;
+        });
+      }
+    }
+
+    if (!full) return output.output;
+
+    output.output = this.#checkValueType(list, output.output, parents, state);
+
     return output;
   }
 
   /**
-   * Gets a Var from a string path
+   * Evaluates an aggregate variable, numbers are text without the typed option
+   * @param {AggregateVar} aggregate - The variable to evaluate
+   * @param {string}       origin    - For circular dependency detection
+   * @param {string[]}     parents   - List of parent paths to add to deps
+   * @param {EvalState}    state     - State of the current getVar call
+   * @returns {Literal} The result, null (or "" without the typed option) for numeric ops with no numbers
+   */
+  #evaluateAggregate(
+    aggregate: AggregateVar,
+    origin: Set<string>,
+    parents: string[],
+    state: EvalState
+  ): Literal {
+    const thisPath = parents[parents.length - 1];
+    const members: Literal[] = [];
+    const sources =
+      aggregate.value instanceof Array ? aggregate.value : [aggregate.value];
+    let count = 0;
+
+    for (let source of sources) {
+      const value = this.#readValue(
+        source,
+        aggregate.scope,
+        origin,
+        parents,
+        state
+      );
+      const pattern =
+        isReference(source) &&
+        isPattern(normalizePath(source.value, aggregate.scope));
+      // patterns are already a list of the matched variables, which can be lists themselves
+      const values = pattern ? <Literal[]>value : [value];
+
+      for (let value of values) {
+        const items = value instanceof Array ? value : [value];
+
+        members.push(...items);
+        // each variable a pattern matches counts once, even if it's a list
+        count += pattern ? 1 : items.length;
+      }
+    }
+
+    if (aggregate.op === "count") {
+      return this.options.typed ? count : `${count}`;
+    } else if (aggregate.op === "concat") {
+      return members.map((i) => toText(i)).join(aggregate.separator ?? "");
+    }
+
+    const numbers: number[] = [];
+
+    for (let member of members) {
+      const number = coerceValue(member, "number", {});
+
+      if (!number.error) {
+        numbers.push(<number>number.value);
+      } else if (aggregate.nonNumeric === "error") {
+        return this.#fail(
+          new TypeMismatchError(
+            `Aggregate member ${JSON.stringify(
+              member
+            )} is not a number (${thisPath})`,
+            thisPath
+          ),
+          `[NOT A NUMBER ${toText(member)}]`,
+          parents,
+          state
+        );
+      }
+    }
+
+    const result = aggregators[aggregate.op](numbers);
+
+    if (this.options.typed) return result;
+
+    return result === null ? "" : `${result}`;
+  }
+
+  /**
+   * Lists the variables a pattern matches, sorted by path so the order is stable
+   * @param {string} pattern - The normalized pattern, like "prices.*"
+   * @param {string} self    - The variable using the pattern, which is left out
+   * @returns {string[]} The paths of the stored variables that match, not inherited ones
+   */
+  #expandPattern(pattern: string, self: string): string[] {
+    return this.#listVars()
+      .map((i) => getPath(i.name, i.scope))
+      .filter((i) => i !== self && matchesPattern(pattern, i))
+      .sort();
+  }
+
+  /**
+   * Resolves a path to the absolute path of the variable it points to from within scope.
+   * Unqualified names are looked up in scope first, then in each parent scope up to global
+   * @param {string} path             - The path to resolve
+   * @param {string} [scope="global"] - The scope the path is relative to
+   * @returns {string} The absolute path, or the path in scope itself if no variable was found
+   */
+  resolvePath(path: string, scope: string = "global"): string {
+    const candidates = lookupPaths(path, scope);
+
+    return candidates.find((i) => this.#owner(i)) ?? candidates[0];
+  }
+
+  /**
+   * Finds the variable a path points to or into, like "theme" for "theme.colors.primary"
+   * @param {string} path - The normalized path
+   * @returns {string | null} The path to the variable, or null if there isn't one
+   */
+  #owner(path: string): string | null {
+    if (this.#lookupVar(path)) return path;
+
+    const segments = path.split(".");
+
+    for (let i = segments.length - 1; i > 0; i--) {
+      const current = segments.slice(0, i).join(".");
+
+      if (this.#lookupVar(current)) return current;
+    }
+
+    return null;
+  }
+
+  /**
+   * Gets a Var from a string path. Inherited variables are returned with the scope of path
    * @param {string} path - The path to the variable
    * @returns {Var} The Var found at scope.name
    */
   getRawVar(path: string): Var {
-    const result = get(this.vars, normalizePath(path), null);
+    path = normalizePath(path);
 
-    if (isVar(result)) {
-      return { ...result };
+    const found = this.#lookupVar(path);
+    const result = get(this.vars, path, null);
+
+    if (found) {
+      return { ...found.variable, scope: splitPath(path).scope };
     } else if (result) {
       throw new TypeError(`Variable ${path} is malformed (is it a scope?)`);
     }
@@ -946,60 +4858,267 @@ export class UserVars {
   }
 
   /**
-   * Gets a Var from a string path
-   * @param {string}  path - The path to the variable
-   * @param {boolean} full - Whether the variable should be fully evaluated if it's a table, will return TableData
-   * @returns {Var} The Var found at the path
+   * Evaluates the variable at a path, or returns its cached value
+   * @param {string}               path                       - The path to the variable
+   * @param {boolean | GetOptions} [options]                  - Whether the variable should be fully evaluated if it's a table, or an options object
+   * @param {boolean}              [options.full=false]       - Whether the variable should be fully evaluated if it's a table or list operation, will return TableData or ListOpData
+   * @param {string}               [options.errors=sentinel] - "sentinel" to return errors as strings like "[CIRCULAR DEPENDENCY]", "throw" to throw them, or "result" to return a VarResult
+   * @returns {Literal | FullData | VarResult} The evaluated value
    */
-  getVar(path: string, full?: boolean): Literal | TableData {
-    const variable = this.getRawVar(path);
+  getVar(path: string, options: GetOptions & { errors: "result" }): VarResult;
+  getVar(path: string, options?: boolean | GetOptions): Literal | FullData;
+  getVar(
+    path: string,
+    options: boolean | GetOptions = {}
+  ): Literal | FullData | VarResult {
+    if (typeof options === "boolean") options = { full: options };
+
+    const { full = false, errors = "sentinel", context } = options;
+
+    if (errors === "result") {
+      try {
+        return {
+          ok: true,
+          value: this.getVar(path, { full, errors: "throw", context })
+        };
+      } catch (err) {
+        if (err instanceof UserVarsError) return { ok: false, error: err };
 
-    if (full && variable.varType === "table") {
-      if (!this.changed[`${path}-full`] && this.cache[`${path}-full`]) {
-        return this.cache[`${path}-full`];
+        throw err;
       }
+    }
+
+    const state: EvalState = {
+      strict: errors === "throw",
+      failed: new Set(),
+      context,
+      contextReads: {}
+    };
+
+    path = normalizePath(path);
+
+    const owner = this.#owner(path);
+    // properties don't have a Var of their own
+    const variable = owner && owner !== path ? null : this.getRawVar(path);
+    const key =
+      full && ["table", "listOp"].includes(<string>variable?.varType)
+        ? `${path}-full`
+        : path;
+
+    const cached = this.#cached(key, state);
+
+    if (cached !== undefined) return cached;
+
+    let value: Literal | FullData;
+
+    if (!variable) {
+      value = this.#evaluateProperty(path, <string>owner, new Set(), [], state);
+    } else if (key === path) {
+      value = this.#evaluate(variable, undefined, [], state);
+    } else if (variable.varType === "listOp") {
+      value = this.#evaluateListOp(
+        <ListOpVar>variable,
+        new Set([path]),
+        [path],
+        true,
+        state
+      );
+    } else {
+      value = this.#evaluateFull(<TableVar>variable, state);
+    }
 
-      const value = this.#evaluateFull(<TableVar>variable);
+    this.#store(key, path, value, state);
 
-      this.cache[`${path}-full`] = value;
-      this.changed[`${path}-full`] = false;
+    return value;
+  }
 
-      return value;
+  /**
+   * Evaluates a variable as if some variables were replaced, without changing this instance.
+   * Overrides are written to a copy of the scopes they're in, and evaluated with a separate cache
+   * @param {string}          path                   - The path to the variable
+   * @param {Overrides}       overrides              - Mapping of paths to literal values or Vars, Var names and scopes are taken from the path
+   * @param {OverrideOptions} [options]              - Override options
+   * @param {boolean}         [options.full=false]   - Whether tables and list operations should evaluate to their full data
+   * @returns {OverrideResult} The value, and which overrides it used
+   */
+  evaluateWith(
+    path: string,
+    overrides: Overrides,
+    { full = false }: OverrideOptions = {}
+  ): OverrideResult {
+    const overlay = new UserVars(this.options);
+    const paths = Object.keys(overrides).map((i) => normalizePath(i));
+
+    overlay.vars = { ...this.vars };
+    overlay.scopes = this.scopes;
+
+    Object.values(overrides).forEach((override, i) => {
+      const { scope, name } = splitPath(paths[i]);
+
+      overlay.#overrideVar(
+        typeof override === "object" && isVar(<Var>override)
+          ? { ...(<Var>override), scope, name }
+          : literalVar(<Literal>override, paths[i])
+      );
+    });
+
+    path = normalizePath(path);
+
+    const value = overlay.getVar(path, full);
+
+    const graph: DependencyGraph = {};
+
+    for (let i of Object.keys(overlay.deps)) {
+      graph[i] = [...overlay.deps[i]];
+    }
+
+    // properties read from an override are deps of it, and what reads them deps of the properties
+    const influencedBy = paths.filter(
+      (i) => i === path || walkGraph(graph, i).includes(path)
+    );
+
+    return { value, influencedBy };
+  }
+
+  /**
+   * Evaluates a variable and returns every step it took, like the references it followed,
+   * the inputs of its expressions, and which table rows passed. The value is cached like getVar
+   * @param {string}         path              - The path to the variable, or to a property of one
+   * @param {ExplainOptions} [options]         - Explain options
+   * @param {JsonValue}      [options.context] - Data read with $context
+   * @returns {ExplainStep} The step evaluating the variable, errors are recorded in the steps instead of thrown
+   */
+  explain(path: string, { context }: ExplainOptions = {}): ExplainStep {
+    const root: ExplainStep = { kind: "explain", steps: [] };
+    const state: EvalState = {
+      strict: false,
+      failed: new Set(),
+      context,
+      contextReads: {},
+      trace: root
+    };
+
+    path = normalizePath(path);
+
+    const owner = this.#owner(path);
+    const variable = owner && owner !== path ? null : this.getRawVar(path);
+
+    try {
+      const value = variable
+        ? this.#evaluate(variable, undefined, [], state)
+        : this.#evaluateProperty(path, <string>owner, new Set(), [], state);
+
+      this.#store(path, path, value, state);
+    } catch (err) {
+      // the error is recorded on the steps it was thrown through
+      if (!root.steps.length) throw err;
     }
 
-    if (!this.changed[path] && this.cache[path]) {
-      return this.cache[path];
+    return root.steps[0];
+  }
+
+  /**
+   * Writes a variable without changing the scopes it's written through, which may be shared with another instance
+   * @param {Var} value - The variable to write
+   */
+  #overrideVar(value: Var) {
+    this.#assertValid(value);
+
+    let current: Vars | Scope = this.vars;
+
+    if (value.scope !== "global") {
+      for (let i of value.scope.split(".")) {
+        const next = current[i];
+
+        if (isVar(next)) {
+          throw new TypeError(
+            `Scope path contains a variable (${value.scope}.${value.name})`
+          );
+        }
+
+        current = current[i] = { ...next };
+      }
     }
 
-    const value = this.#evaluate(variable, undefined);
+    current[value.name] = value;
+  }
+
+  /**
+   * Replaces variable placeholders in any text with the values of the variables they point to
+   * @param {string}                  text                       - The text containing placeholders
+   * @param {RenderOptions}           [options]                  - Render options
+   * @param {string}                  [options.scope="global"]   - The scope paths are relative to
+   * @param {TemplateSyntax | string} [options.syntax=mustache] - The delimiters around placeholders, or "mustache", "dollar", or "percent"
+   * @param {boolean}                 [options.strict=false]     - Whether missing variables should throw a MissingReferenceError, and malformed placeholders a SyntaxError, instead of being left in the text
+   * @returns {RenderResult} The rendered text, and the placeholders that couldn't be resolved
+   */
+  render(
+    text: string,
+    {
+      scope = "global",
+      syntax = "mustache",
+      strict = false
+    }: RenderOptions = {}
+  ): RenderResult {
+    const template = parseTemplate(text, syntax, { lenient: !strict });
+    const output: RenderResult = { text: template.text[0], unresolved: [] };
+    const unresolved: Array<{ start: number; text: string }> = [];
+
+    template.tokens.forEach((token, i) => {
+      const path = this.resolvePath(token.path, scope);
+
+      if (this.#owner(path)) {
+        const value = <Literal>(
+          this.getVar(path, { errors: strict ? "throw" : "sentinel" })
+        );
+
+        output.text += toText(value, token.join);
+      } else if (token.fallback !== undefined) {
+        output.text += token.fallback;
+      } else if (strict) {
+        throw new MissingReferenceError("", path);
+      } else {
+        output.text += text.slice(token.start, token.end);
+        unresolved.push({ start: token.start, text: token.path });
+      }
+
+      output.text += template.text[i + 1];
+    });
 
-    this.cache[path] = value;
-    this.changed[path] = false;
+    // malformed placeholders are already in the text, and are listed in order with the others
+    unresolved.push(...template.malformed);
+    output.unresolved = unresolved
+      .sort((a, b) => a.start - b.start)
+      .map((i) => i.text);
 
-    return value;
+    return output;
   }
 
   /**
    * Returns the values of all variables, structured, optionally with full TableData
    * @param {boolean} globalRoot - Whether global variables should be in a scope called "global" or on their own
    * @param {boolean} flat       - Whether the output data should be a flat mapping of paths to literals, or scopes should be entries containing values
-   * @param {boolean} full       - Whether the variable should be fully evaluated if it's a table, will return TableData
+   * @param {boolean | GetOptions} full - Whether the variable should be fully evaluated if it's a table, or options to pass to getVar
    * @returns {AllVars | AllVarsFlat} All evaluated variable data
    */
-  getAllVars(globalRoot: boolean = true, flat?: boolean, full?: boolean): AllVars | AllVarsFlat {
+  getAllVars(
+    globalRoot: boolean = true,
+    flat?: boolean,
+    full?: boolean | GetOptions
+  ): AllVars | AllVarsFlat {
     if (flat) {
       const output: AllVarsFlat = {};
 
-      for (let i of Object.keys(this.vars)) {
-        let current = this.vars[i];
+      for (let i of this.#listVars()) {
+        const path = getPath(i.name, i.scope);
 
-        if (isVar(current)) {
-          if (!globalRoot) output[`global.${i}`] = this.getVar(i, full);
-          else output[i] = this.getVar(i, full);
-        } else {
-          for (let e of Object.keys(current)) {
-            output[`${i}.${e}`] = this.getVar(`${i}.${e}`, full);
-          }
+        output[!globalRoot && i.scope === "global" ? `global.${path}` : path] =
+          this.getVar(path, full);
+      }
+
+      for (let i of Object.keys(this.scopes)) {
+        for (let e of this.#inheritedNames(i)) {
+          output[`${i}.${e}`] = this.getVar(`${i}.${e}`, full);
         }
       }
 
@@ -1009,6 +5128,26 @@ export class UserVars {
 
       if (!globalRoot) output.global = {};
 
+      const build = (scope: Vars | Scope, prefix: string) => {
+        const built: OutputScope = {};
+
+        for (let i of Object.keys(scope)) {
+          const current = scope[i];
+
+          if (isVar(current)) {
+            built[i] = this.getVar(`${prefix}${i}`, full);
+          } else {
+            built[i] = build(current, `${prefix}${i}.`);
+          }
+        }
+
+        for (let i of this.#inheritedNames(prefix.slice(0, -1))) {
+          built[i] = this.getVar(`${prefix}${i}`, full);
+        }
+
+        return built;
+      };
+
       for (let i of Object.keys(this.vars)) {
         let current = this.vars[i];
 
@@ -1016,12 +5155,7 @@ export class UserVars {
           if (!globalRoot) (<AllVarsGlobalNotRoot>output).global[i] = this.getVar(i, full);
           else output[i] = this.getVar(i, full);
         } else {
-          output[i] = {} as OutputScope;
-
-          for (let e of Object.keys(current)) {
-            // @ts-ignore
-            output[i][e] = this.getVar(`${i}.${e}`, full);
-          }
+          output[i] = build(current, `${i}.`);
         }
       }
 
@@ -1029,83 +5163,406 @@ export class UserVars {
     }
   }
 
+  /**
+   * Resolves a reference or inline expression
+   * @param {TypedValue} ref     - The reference or inline expression to resolve
+   * @param {string}     scope   - The scope paths will be evaluated relative to
+   * @param {string}     origin  - For circular dependency detection
+   * @param {string[]}   parents - List of parent paths to pass to #evaluate
+   * @param {EvalState}  state   - State of the current getVar call
+   * @returns {Literal} The resolved value
+   */
   #followReference(
     ref: TypedValue,
     scope: string,
     origin: Set<string>,
-    parents: string[]
+    parents: string[],
+    state: EvalState
   ): Literal {
+    const thisPath = parents[parents.length - 1];
+
     if (ref.type === "expression") {
-      let parsed = this.parser.parse(ref.value);
-      let vars = parsed.variables();
-      let input: { [name: string]: string | number[] } = {};
+      let parsed = this.#parseExpression(ref.value, thisPath);
+      const { input, missing } = this.#expressionInput(
+        (<InlineExpression>ref).vars,
+        parsed.variables(),
+        scope,
+        origin,
+        parents,
+        state
+      );
 
-      for (let i of Object.keys((<InlineExpression>ref).vars)) {
-        if (!vars.includes(i)) continue;
+      if (missing) return `[MISSING ${missing}]`;
 
-        const current = (<InlineExpression>ref).vars[i];
+      return this.#runExpression(parsed, input, ref.value, thisPath, state);
+    }
+
+    if (isLocal(ref.value)) {
+      return this.#traced(
+        state,
+        { kind: "local", reference: ref.value },
+        () => {
+          const value = this.#readLocal(ref.value, parents, state);
 
-        if (typeof current === "string") {
-          input[i] = current;
-          continue;
+          if (value !== undefined) return value;
+
+          return this.#fail(
+            new MissingReferenceError(thisPath, ref.value),
+            "[MISSING REFERENCE]",
+            parents,
+            state
+          );
         }
+      );
+    }
+
+    if (isPattern(ref.value)) {
+      const pattern = normalizePath(ref.value, scope);
+
+      return this.#traced(
+        state,
+        { kind: "pattern", reference: ref.value, path: pattern },
+        () => this.#evaluatePattern(pattern, origin, parents, state)
+      );
+    }
 
-        if (current.type === "literal") {
-          input[i] = current.value;
-          continue;
+    const path = this.#resolve(ref.value, scope, parents);
+    const owner = this.#owner(path);
+    const item = state.item;
+
+    // $item belongs to the variable being evaluated, not the ones it references
+    delete state.item;
+
+    return this.#traced(
+      state,
+      { kind: "reference", reference: ref.value, path },
+      () => {
+        try {
+          const value =
+            owner && owner !== path
+              ? this.#evaluateProperty(path, owner, origin, parents, state)
+              : this.#evaluate(this.getRawVar(path), origin, parents, state);
+
+          this.#store(path, path, value, state);
+
+          return value;
+        } catch (err) {
+          if (err instanceof ReferenceError) {
+            // still track the edge, so the dependents are invalidated if the variable is created
+            this.#trackMissing(path, parents);
+
+            return this.#fail(
+              new MissingReferenceError(thisPath, path),
+              "[MISSING REFERENCE]",
+              parents,
+              state
+            );
+          } else {
+            throw err;
+          }
+        } finally {
+          state.item = item;
         }
+      }
+    );
+  }
 
-        const path = normalizePath(current.value, scope);
-        const followed = this.#followReference(
-          { value: path, type: "reference" },
-          scope,
+  /**
+   * Evaluates every variable a pattern matches, except the one being evaluated
+   * @param {string}    pattern - The normalized pattern, like "prices.*"
+   * @param {string}    origin  - For circular dependency detection
+   * @param {string[]}  parents - List of parent paths to add to deps
+   * @param {EvalState} state   - State of the current getVar call
+   * @returns {Literal[]} The values of the matched variables, in order of their paths
+   */
+  #evaluatePattern(
+    pattern: string,
+    origin: Set<string>,
+    parents: string[],
+    state: EvalState
+  ): Literal[] {
+    // invalidated by #setPatternsChanged when a matching variable is added or removed
+    this.#patterns.add(pattern);
+    this.#trackMissing(pattern, parents);
+
+    return this.#expandPattern(pattern, parents[parents.length - 1]).map(
+      (path) =>
+        this.#followReference(
+          { value: `global.${path}`, type: "reference" },
+          "global",
           origin,
-          parents
-        );
+          parents,
+          state
+        )
+    );
+  }
+
+  /**
+   * Reads a value bound while evaluating, like "$item", "$index", or a property of them like "$item.name",
+   * or a property of the context like "$context.user.role"
+   * @param {string}    path    - The path starting with "$"
+   * @param {string[]}  parents - The paths being evaluated, which are recorded as reading the context
+   * @param {EvalState} state   - State of the current getVar call
+   * @returns {Literal | undefined} The value, or undefined if nothing is bound at path
+   */
+  #readLocal(
+    path: string,
+    parents: string[],
+    state: EvalState
+  ): Literal | undefined {
+    const [name, ...properties] = normalizePath(path).split(".");
+
+    if (name === "$context") {
+      const value = getProperty(state.context, properties);
+
+      for (let i of parents) {
+        if (!state.contextReads[i]) state.contextReads[i] = {};
+
+        state.contextReads[i][properties.join(".")] = value;
+      }
+
+      return value;
+    }
+
+    if (!state.item) return undefined;
+
+    const { value, index } = state.item;
+    const locals: { [name: string]: Literal } = {
+      $item: value,
+      $index: this.options.typed ? index : `${index}`
+    };
+
+    return getProperty(locals[name], properties);
+  }
+
+  /**
+   * Evaluates a property of a variable, like "theme.colors.primary" or "items.2".
+   * Properties are dependents of their variable, so consumers of one key of an object aren't invalidated by the others
+   * @param {string}    path    - The normalized path to the property
+   * @param {string}    owner   - The path to the variable the property is in
+   * @param {string}    origin  - For circular dependency detection
+   * @param {string[]}  parents - List of parent paths to add to deps
+   * @param {EvalState} state   - State of the current getVar call
+   * @returns {Literal} The evaluated property
+   */
+  #evaluateProperty(
+    path: string,
+    owner: string,
+    origin: Set<string>,
+    parents: string[],
+    state: EvalState
+  ): Literal {
+    this.#trackMissing(path, parents);
+    this.#trackMissing(owner, [path]);
+
+    parents = [...parents, path];
+
+    if (origin.has(path)) {
+      return this.#fail(
+        new CircularDependencyError(path, parents),
+        "[CIRCULAR DEPENDENCY]",
+        parents,
+        state
+      );
+    }
+
+    origin = new Set([...origin, path]);
+
+    return this.#traced(
+      state,
+      { kind: "property", path, detail: owner },
+      () => {
+        const variable = this.getRawVar(owner);
+        const properties = path.slice(owner.length + 1).split(".");
+        let value: Literal | undefined;
+
+        if (variable.varType === "object") {
+          this.#assertValid(variable);
+
+          // inherited variables are invalidated if they're overridden, or the variable they come from changes
+          for (let i of this.#lookupVar(owner)?.via ?? []) {
+            this.#trackMissing(i, parents);
+          }
+
+          let node: Value | ObjectValue | undefined = <ObjectValue>(
+            variable.value
+          );
 
-        if (followed === "[MISSING REFERENCE]") return `[MISSING ${current}]`;
+          // only the Value holding the property is evaluated
+          while (properties.length && node && !isValueNode(node)) {
+            node = node[<string>properties.shift()];
+          }
 
-        if (typeof followed === "string") {
-          input[i] = followed;
+          if (node) {
+            value = isValueNode(node)
+              ? this.#readValue(node, variable.scope, origin, parents, state)
+              : this.#evaluateObject(
+                  node,
+                  variable.scope,
+                  origin,
+                  parents,
+                  state
+                );
+          }
         } else {
-          input[i] = followed.map((e) => parseFloat(e));
+          value = this.#evaluate(variable, origin, parents, state);
         }
-      }
 
-      // @ts-ignore
-      const evaluated = parsed.evaluate(input).toString();
+        value = getProperty(value, properties);
+
+        if (value === undefined) {
+          return this.#fail(
+            new MissingReferenceError(
+              parents[parents.length - 2] ?? path,
+              path
+            ),
+            "[MISSING REFERENCE]",
+            parents,
+            state
+          );
+        }
 
-      if (evaluated.match(/,/g)) {
-        return evaluated.split(",");
+        return value;
       }
+    );
+  }
+
+  /**
+   * Evaluates the properties of an object variable, or of an object nested in one
+   * @param {ObjectValue} node    - The object to evaluate
+   * @param {string}      scope   - The scope paths will be evaluated relative to
+   * @param {string}      origin  - For circular dependency detection
+   * @param {string[]}    parents - List of parent paths to pass to #evaluate
+   * @param {EvalState}   state   - State of the current getVar call
+   * @returns {object} The object with every Value evaluated
+   */
+  #evaluateObject(
+    node: ObjectValue,
+    scope: string,
+    origin: Set<string>,
+    parents: string[],
+    state: EvalState
+  ): { [key: string]: Literal } {
+    const output: { [key: string]: Literal } = {};
+
+    for (let i of Object.keys(node)) {
+      const current = node[i];
 
-      return evaluated;
+      output[i] = isValueNode(current)
+        ? this.#readValue(current, scope, origin, parents, state)
+        : this.#evaluateObject(current, scope, origin, parents, state);
     }
 
-    try {
-      const path = normalizePath(ref.value, scope);
-      const value = this.#evaluate(this.getRawVar(path), origin, parents);
+    return output;
+  }
+
+  /**
+   * Evaluates a Value, which may be a string, a literal, a reference, or an inline expression
+   * @param {Value}     value   - The value to evaluate
+   * @param {string}    scope   - The scope paths will be evaluated relative to
+   * @param {string}    origin  - For circular dependency detection
+   * @param {string[]}  parents - List of parent paths to pass to #evaluate
+   * @param {EvalState} state   - State of the current getVar call
+   * @returns {Literal} The evaluated value
+   */
+  #readValue(
+    value: Value,
+    scope: string,
+    origin: Set<string>,
+    parents: string[],
+    state: EvalState
+  ): Literal {
+    if (typeof value === "string") return value;
 
-      this.cache[path] = value;
-      this.changed[path] = false;
+    if (value.type === "literal") {
+      return this.#readLiteral(value, parents, state);
+    }
 
-      return value;
-    } catch (err) {
-      if (err instanceof ReferenceError) {
-        return "[MISSING REFERENCE]";
-      } else {
-        throw err;
-      }
+    return this.#followReference(value, scope, origin, parents, state);
+  }
+
+  /**
+   * Caches an evaluated value. Values that read $context go to the context cache with what they read,
+   * so other contexts don't see them
+   * @param {string}                key   - The cache key, the path or the path with "-full"
+   * @param {string}                path  - The evaluated path
+   * @param {Literal | FullData}    value - The evaluated value
+   * @param {EvalState}             state - State of the current getVar call
+   */
+  #store(
+    key: string,
+    path: string,
+    value: Literal | FullData,
+    state: EvalState
+  ) {
+    const reads = state.contextReads[path];
+
+    this.changed[key] = false;
+
+    if (!reads) {
+      this.cache[key] = value;
+      return;
+    }
+
+    delete this.cache[key];
+
+    const entries = (this.#contextCache[key] || []).filter(
+      (i) => !isEqual(i.reads, reads)
+    );
+
+    entries.push({ reads: { ...reads }, value });
+
+    this.#contextCache[key] = entries.slice(-contextCacheSize);
+  }
+
+  /**
+   * Marks the patterns matching a path and their dependents as needing to be re-evaluated
+   * Adding or removing a variable changes what the patterns matching it stand for
+   * @param {string} path - The path of the variable that was added or removed
+   */
+  #setPatternsChanged(path: string) {
+    for (let i of this.#patterns) {
+      if (matchesPattern(i, path)) this.#setChanged(i);
     }
   }
 
-  #setChanged(path: string) {
+  /**
+   * Marks a path and everything that depends on it as needing to be re-evaluated
+   * @param {string}      path         - The path that changed
+   * @param {string[]}    [properties] - The properties of an object that changed, consumers of others are left alone
+   * @param {Set<string>} [visited]    - The paths already marked by this change
+   */
+  #setChanged(
+    path: string,
+    properties?: string[],
+    visited: Set<string> = new Set()
+  ) {
+    // variables that use each other, or aggregates of their own scope, lead back to marked paths
+    if (visited.has(path)) return;
+
+    visited.add(path);
+
     this.changed[path] = true;
+    this.changed[`${path}-full`] = true;
+    this.#sentinels.delete(path);
+    this.#sentinels.delete(`${path}-full`);
+    delete this.#contextCache[path];
+    delete this.#contextCache[`${path}-full`];
 
     if (!this.deps[path]) return;
 
     for (let i of this.deps[path]) {
-      this.#setChanged(i);
+      if (properties && i.startsWith(`${path}.`)) {
+        const property = i.slice(path.length + 1);
+        const related = (e: string) =>
+          e === property ||
+          e.startsWith(`${property}.`) ||
+          property.startsWith(`${e}.`);
+
+        if (!properties.some(related)) continue;
+      }
+
+      this.#setChanged(i, undefined, visited);
     }
   }
 }
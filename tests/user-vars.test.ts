@@ -1,4 +1,20 @@
-import { UserVars } from "../src";
+import {
+  CallbackError,
+  ChangeEvent,
+  CircularDependencyError,
+  ConditionData,
+  ConstraintError,
+  ExpressionError,
+  ListOpData,
+  MissingReferenceError,
+  normalizePath,
+  SNAPSHOT_VERSION,
+  TableData,
+  TypeMismatchError,
+  UserVars,
+  UserVarsError,
+  VarFailure
+} from "../src";
 const data = require("./data.json");
 
 let userVars: UserVars;
@@ -309,6 +325,155 @@ describe("getVar", () => {
         expect(userVars.getVar("table")).toBe("gt");
       });
 
+      test("Additional comparisons", () => {
+        userVars.setVarBulk(
+          data.tableComparisons,
+          data.listWords,
+          data.listRange
+        );
+
+        const full = <TableData>userVars.getVar("comparisons", true);
+
+        expect(
+          full.value.map((i) => [
+            (<ConditionData>i.conditions[0]).comparison,
+            i.conditions[0].passed
+          ])
+        ).toStrictEqual([
+          ["ne", true],
+          ["lte", true],
+          ["gte", false],
+          ["between", true],
+          ["notIn", true],
+          ["contains", true],
+          ["startsWith", true],
+          ["endsWith", false],
+          ["matches", true],
+          ["empty", true],
+          ["notEmpty", true],
+          ["eqI", true],
+          ["containsI", true],
+          ["startsWith", true],
+          ["endsWith", false],
+          ["matches", false],
+          ["between", true],
+          ["notIn", true]
+        ]);
+        expect(full.value[9].conditions[0]).toStrictEqual({
+          val1: "",
+          val1Path: "",
+          comparison: "empty",
+          val2: "",
+          val2Path: "",
+          passed: true
+        });
+        expect(full.output).toBe("ne");
+      });
+
+      test("Invalid pattern", () => {
+        expect(
+          userVars.validateVar(data.tableInvalidPattern).map((i) => i.code)
+        ).toStrictEqual(["invalidPattern"]);
+      });
+
+      test("Condition groups", () => {
+        userVars.setVarBulk(data.tableGroups, data.basicGlobalLiteral);
+
+        expect(userVars.getVar("groups")).toBe("any");
+        // the second condition of "any" was never needed
+        expect(userVars.deps.nice).toBeUndefined();
+
+        const full = <TableData>userVars.getVar("groups", true);
+
+        expect(full.value[0].conditions[0].passed).toBe(false);
+        expect(full.value[1].conditions).toStrictEqual([
+          {
+            any: [
+              {
+                val1: "a",
+                val1Path: "",
+                comparison: "eq",
+                val2: "a",
+                val2Path: "",
+                passed: true
+              },
+              {
+                val1: "cool",
+                val1Path: "nice",
+                comparison: "eq",
+                val2: "cool",
+                val2Path: "",
+                passed: true
+              }
+            ],
+            passed: true
+          },
+          {
+            all: [
+              {
+                val1: "1",
+                val1Path: "",
+                comparison: "lt",
+                val2: "2",
+                val2Path: "",
+                passed: true
+              },
+              {
+                not: {
+                  val1: "x",
+                  val1Path: "",
+                  comparison: "empty",
+                  val2: "",
+                  val2Path: "",
+                  passed: false
+                },
+                passed: true
+              }
+            ],
+            passed: true
+          }
+        ]);
+      });
+
+      test("Invalid condition groups", () => {
+        expect(
+          userVars
+            .validateVar(data.tableInvalidGroup)
+            .map((i) => [i.pointer, i.code])
+        ).toStrictEqual([
+          ["/value/0/conditions/0", "invalidObject"],
+          ["/value/0/conditions/1/any", "invalidArray"]
+        ]);
+      });
+
+      test("Expression conditions", () => {
+        userVars.setVarBulk(data.tableExpressionCondition, data.basicNum);
+
+        expect(userVars.getVar("table")).toBe("big");
+        expect(
+          (<TableData>userVars.getVar("table", true)).value.map(
+            (i) => i.conditions[0]
+          )
+        ).toStrictEqual([
+          {
+            expression: "nope > 1",
+            vars: {},
+            varPaths: {},
+            passed: false
+          },
+          {
+            expression: "a * 2 > b and c != 'x'",
+            vars: { a: "6", b: "10", c: "y" },
+            varPaths: { a: "num" },
+            passed: true
+          }
+        ]);
+
+        userVars.updateVar(data.basicNum2);
+
+        expect(userVars.getVar("table")).toBe("small");
+      });
+
       test("Gt with list as second operand", () => {
         userVars.setVarBulk(
           data.tableCompareLists,
@@ -407,3 +572,2028 @@ describe("getVar", () => {
     expect(userVars.getVar("var")).toBe("[NOT IMPLEMENTED]");
   });
 });
+
+describe("deleteVar", () => {
+  test("Delete global", () => {
+    userVars.setVar(data.basicGlobalLiteral);
+
+    expect(userVars.deleteVar("nice")).toBe(true);
+    expect(() => userVars.getVar("nice")).toThrow(ReferenceError);
+  });
+
+  test("Delete missing", () => {
+    expect(userVars.deleteVar("nice")).toBe(false);
+  });
+
+  test("Dependents are invalidated", () => {
+    userVars.setVarBulk(data.basicGlobalLiteral, data.basicGlobalVar);
+
+    expect(userVars.getVar("niceVar")).toBe("cool");
+
+    userVars.deleteVar("nice");
+
+    expect(userVars.getVar("niceVar")).toBe("[MISSING REFERENCE]");
+
+    userVars.setVar(data.basicGlobalLiteral2);
+
+    expect(userVars.getVar("niceVar")).toBe("epic");
+  });
+
+  test("Delete scope", () => {
+    userVars.setVarBulk(
+      data.basicScopedLiteral,
+      data.basicScopedVar,
+      data.listMixed
+    );
+
+    expect(userVars.getVar("list")).toStrictEqual([
+      "nice",
+      "[MISSING nice]",
+      "epic",
+      "yes"
+    ]);
+    expect(userVars.deleteScope("scope1")).toBe(true);
+    expect(userVars.vars.scope1).toBeUndefined();
+    expect(userVars.getVar("list")).toStrictEqual([
+      "nice",
+      "[MISSING nice]",
+      "[MISSING scope1.nice]",
+      "yes"
+    ]);
+  });
+});
+
+describe("renameVar", () => {
+  test("Rename without rewriting references", () => {
+    userVars.setVarBulk(data.basicGlobalLiteral, data.basicGlobalVar);
+    userVars.getVar("niceVar");
+
+    expect(userVars.renameVar("nice", "cool")).toBe(true);
+    expect(userVars.getVar("cool")).toBe("cool");
+    expect(userVars.getVar("niceVar")).toBe("[MISSING REFERENCE]");
+  });
+
+  test("Rename into scope with rewritten references", () => {
+    userVars.setVarBulk(
+      data.basicGlobalLiteral,
+      data.basicGlobalVar,
+      data.tableFullRefs,
+      data.basicScopedLiteral
+    );
+    userVars.getVar("table", true);
+
+    expect(
+      userVars.renameVar("nice", "scope2.nice", { rewriteReferences: true })
+    ).toBe(true);
+    expect(userVars.getRawVar("niceVar").value).toStrictEqual({
+      value: "scope2.nice",
+      type: "reference"
+    });
+    expect(userVars.getVar("niceVar")).toBe("cool");
+    expect(
+      (<TableData>userVars.getVar("table", true)).value[0].conditions[0]
+    ).toStrictEqual({
+      val1: "cool",
+      val1Path: "scope2.nice",
+      comparison: "eq",
+      val2: "not cool",
+      val2Path: "",
+      passed: false
+    });
+    // the input data is left untouched
+    expect(data.basicGlobalVar.value.value).toBe("nice");
+  });
+
+  test("Moved variable keeps its own references", () => {
+    userVars.setVarBulk(data.basicScopedLiteral, data.basicScopedVar);
+
+    userVars.renameVar("scope1.niceVar", "niceVar", {
+      rewriteReferences: true
+    });
+
+    expect(userVars.getVar("niceVar")).toBe("epic");
+  });
+
+  test("Rename onto existing variable", () => {
+    userVars.setVarBulk(data.basicGlobalLiteral, data.basicGlobalVar);
+
+    expect(userVars.renameVar("nice", "niceVar")).toBe(false);
+    expect(userVars.getVar("nice")).toBe("cool");
+  });
+});
+
+describe("updateVar", () => {
+  test("Update scoped", () => {
+    userVars.setVarBulk(data.basicScopedLiteral, data.basicScopedVar);
+
+    expect(userVars.getVar("scope1.niceVar")).toBe("epic");
+    expect(userVars.updateVar(data.basicScopedLiteral2)).toStrictEqual({
+      path: "scope1.nice",
+      status: "replaced"
+    });
+    expect(userVars.getVar("scope1.niceVar")).toBe("impossible");
+  });
+
+  test("Update global", () => {
+    userVars.setVarBulk(data.basicGlobalLiteral, data.basicGlobalVar);
+    userVars.getVar("niceVar");
+
+    expect(userVars.updateVar(data.basicGlobalLiteral2).status).toBe(
+      "replaced"
+    );
+    expect(userVars.getVar("niceVar")).toBe("epic");
+  });
+
+  test("Update missing", () => {
+    expect(userVars.updateVar(data.basicScopedLiteral)).toStrictEqual({
+      path: "scope1.nice",
+      status: "rejected",
+      reason: "notFound"
+    });
+    expect(() => userVars.getVar("scope1.nice")).toThrow(ReferenceError);
+  });
+
+  test("Update over scope", () => {
+    userVars.setVar(data.basicScopeNice);
+
+    expect(userVars.upsertVar(data.basicGlobalLiteral).reason).toBe(
+      "scopeConflict"
+    );
+  });
+
+  test("Upsert", () => {
+    expect(userVars.upsertVar(data.basicScopedLiteral).status).toBe("created");
+    expect(userVars.upsertVar(data.basicScopedLiteral2).status).toBe(
+      "replaced"
+    );
+    expect(userVars.getVar("scope1.nice")).toBe("impossible");
+  });
+
+  test("Upsert invalid name", () => {
+    expect(
+      userVars.upsertVar({ ...data.basicGlobalLiteral, name: "no way" }).reason
+    ).toBe("invalidName");
+  });
+});
+
+describe("Snapshots", () => {
+  test("Round trip through JSON.stringify", () => {
+    userVars.setVarBulk(
+      data.basicGlobalLiteral,
+      data.basicScopedLiteral,
+      data.listMixed
+    );
+
+    const json = JSON.stringify(userVars);
+
+    expect(JSON.parse(json)).toStrictEqual({
+      version: SNAPSHOT_VERSION,
+      vars: userVars.vars
+    });
+
+    const restored = UserVars.fromJSON(json);
+
+    expect(restored.getVar("list")).toStrictEqual(userVars.getVar("list"));
+  });
+
+  test("Restored cache and deps", () => {
+    userVars.setVarBulk(
+      data.basicGlobalLiteral,
+      data.basicGlobalVar,
+      data.tableFullRefs,
+      data.basicScopedLiteral
+    );
+    userVars.getVar("niceVar");
+    userVars.getVar("table", true);
+
+    const snapshot = userVars.toJSON({ cache: true });
+    const restored = UserVars.fromJSON(JSON.parse(JSON.stringify(snapshot)));
+
+    expect(restored.cache).toStrictEqual(userVars.cache);
+    expect(restored.deps.nice).toStrictEqual(new Set(["niceVar", "table"]));
+    expect(restored.getVar("table", true)).toStrictEqual(
+      data.fullTableRefOutput
+    );
+
+    restored.updateVar(data.basicGlobalLiteral2);
+
+    expect(restored.getVar("niceVar")).toBe("epic");
+    expect(userVars.getVar("niceVar")).toBe("cool");
+  });
+
+  test("Newer version", () => {
+    expect(() =>
+      UserVars.fromJSON({ version: SNAPSHOT_VERSION + 1, vars: {} })
+    ).toThrow(RangeError);
+  });
+
+  test("Malformed snapshot", () => {
+    expect(() => UserVars.fromJSON("{}")).toThrow(TypeError);
+  });
+});
+
+describe("Validation", () => {
+  test("Valid variables", () => {
+    expect(userVars.validateVar(data.tableFullRefs)).toStrictEqual([]);
+    expect(userVars.validateVar(data.listRefScoped)).toStrictEqual([]);
+    expect(userVars.validateVar(data.expressionFunctionList)).toStrictEqual([]);
+  });
+
+  test("Table pointers", () => {
+    const diagnostics = userVars.validateVar(data.tableInvalidComparison);
+
+    expect(diagnostics.map((i) => [i.pointer, i.code])).toStrictEqual([
+      ["/priority", "invalidPriority"],
+      ["/value/1/conditions/1/comparison", "invalidComparison"]
+    ]);
+    expect(diagnostics[0].path).toBe("table");
+  });
+
+  test("List items", () => {
+    expect(
+      userVars.validateVar(data.listInvalidItem).map((i) => [i.pointer, i.code])
+    ).toStrictEqual([
+      ["/value/2/type", "invalidType"],
+      ["/value/3", "invalidValue"]
+    ]);
+  });
+
+  test("Inline expression vars", () => {
+    expect(
+      userVars
+        .validateVar(data.expressionInvalidVars)
+        .map((i) => [i.pointer, i.code])
+    ).toStrictEqual([["/vars/y~1z/vars/a", "invalidValue"]]);
+  });
+
+  test("Values need a type", () => {
+    const untyped = {
+      ...data.basicGlobalLiteral,
+      value: { value: "b" }
+    };
+
+    expect(
+      userVars.validateVar(untyped).map((i) => [i.pointer, i.code])
+    ).toStrictEqual([["/value/type", "invalidType"]]);
+    expect(userVars.setVar(untyped)).toBe(false);
+  });
+
+  test("Unknown varType is a warning", () => {
+    expect(userVars.validateVar(data.invalid)).toStrictEqual([
+      {
+        path: "var",
+        pointer: "/varType",
+        code: "unknownVarType",
+        message: 'Variable type "cisab" is not implemented',
+        severity: "warning"
+      }
+    ]);
+  });
+
+  test("setVar rejects invalid variables", () => {
+    expect(userVars.setVar(data.listInvalidItem)).toBe(false);
+    expect(userVars.setVar(data.basicTable)).toBe(false);
+    expect(userVars.vars).toStrictEqual({});
+  });
+
+  test("upsertVar returns diagnostics", () => {
+    const result = userVars.upsertVar(data.tableInvalidComparison);
+
+    expect(result.reason).toBe("invalidVar");
+    expect(result.diagnostics?.length).toBe(2);
+  });
+
+  test("Validate all", () => {
+    userVars.setVarBulk(data.basicGlobalLiteral, data.invalid);
+    userVars.vars.list = data.listInvalidItem;
+
+    expect(userVars.validateAll().map((i) => i.path)).toStrictEqual([
+      "var",
+      "list",
+      "list"
+    ]);
+  });
+});
+
+describe("Error modes", () => {
+  test("Throw circular dependency", () => {
+    userVars.setVarBulk(
+      data.basicCircular1,
+      data.basicCircular2,
+      data.basicCircular3,
+      data.basicCircular4
+    );
+
+    expect(() => userVars.getVar("var1", { errors: "throw" })).toThrow(
+      CircularDependencyError
+    );
+
+    try {
+      userVars.getVar("var1", { errors: "throw" });
+    } catch (err) {
+      expect((<CircularDependencyError>err).chain).toStrictEqual([
+        "var1",
+        "var2",
+        "var3",
+        "var4",
+        "var1"
+      ]);
+    }
+  });
+
+  test("Result with missing reference", () => {
+    userVars.setVar(data.listMissingRef);
+
+    const result = userVars.getVar("list2", { errors: "result" });
+
+    expect(result.ok).toBe(false);
+
+    if (!result.ok) {
+      expect(result.error).toBeInstanceOf(MissingReferenceError);
+      expect(result.error).toBeInstanceOf(UserVarsError);
+      expect((<MissingReferenceError>result.error).reference).toBe("no");
+      expect(result.error.path).toBe("list2");
+    }
+  });
+
+  test("Result with value", () => {
+    userVars.setVarBulk(data.basicGlobalLiteral, data.basicGlobalVar);
+
+    expect(userVars.getVar("niceVar", { errors: "result" })).toStrictEqual({
+      ok: true,
+      value: "cool"
+    });
+  });
+
+  test("Cached sentinels aren't returned when throwing", () => {
+    userVars.setVarBulk(data.expressionRefValue, data.listExpressionReferenced);
+
+    expect(userVars.getVar("expression")).toBe("[LIST math.expression1]");
+    expect(() => userVars.getVar("expression", { errors: "throw" })).toThrow(
+      TypeMismatchError
+    );
+    expect(userVars.getVar("expression")).toBe("[LIST math.expression1]");
+  });
+
+  test("Literal that looks like a sentinel", () => {
+    userVars.setVar({ ...data.basicGlobalLiteral, value: "[MISSING no]" });
+
+    expect(userVars.getVar("nice", { errors: "result" })).toStrictEqual({
+      ok: true,
+      value: "[MISSING no]"
+    });
+  });
+
+  test("Invalid expression", () => {
+    userVars.setVar(data.expressionInvalid);
+
+    expect(() => userVars.getVar("expression")).toThrow(ExpressionError);
+  });
+
+  test("Not implemented", () => {
+    userVars.setVar(data.invalid);
+
+    expect(() => userVars.getVar("var", { errors: "throw" })).toThrow(
+      TypeMismatchError
+    );
+  });
+
+  test("All vars as results", () => {
+    userVars.setVarBulk(data.basicGlobalLiteral, data.basicCircular);
+
+    const output = userVars.getAllVars(true, true, { errors: "result" });
+
+    expect(output.nice).toStrictEqual({ ok: true, value: "cool" });
+    expect((<VarFailure>output.var).error).toBeInstanceOf(
+      CircularDependencyError
+    );
+  });
+});
+
+describe("Dependency graph", () => {
+  test("Dependencies before evaluation", () => {
+    userVars.setVarBulk(
+      data.basicGlobalLiteral,
+      data.basicGlobalVar,
+      data.basicGlobalVar2
+    );
+
+    expect(userVars.getDependencies("niceVar2")).toStrictEqual(["niceVar"]);
+    expect(
+      userVars.getDependencies("niceVar2", { transitive: true })
+    ).toStrictEqual(["niceVar", "nice"]);
+    expect(userVars.getDependencies("nice")).toStrictEqual([]);
+  });
+
+  test("Table dependencies", () => {
+    userVars.setVar(data.tableFullRefs);
+
+    expect(userVars.getDependencies("table")).toStrictEqual([
+      "nice",
+      "scope1.nice"
+    ]);
+  });
+
+  test("Expression dependencies", () => {
+    userVars.setVar(data.expressionFunctionList);
+
+    expect(userVars.getDependencies("expression")).toStrictEqual([
+      "var",
+      "math.functions"
+    ]);
+  });
+
+  test("Scoped list dependencies", () => {
+    userVars.setVar(data.listRefScoped);
+
+    expect(userVars.getDependencies("chaos.list")).toStrictEqual([
+      "nice",
+      "scope1.nice",
+      "chaos.nice"
+    ]);
+  });
+
+  test("Dependents", () => {
+    userVars.setVarBulk(
+      data.basicGlobalLiteral,
+      data.basicGlobalVar,
+      data.basicGlobalVar2,
+      data.tableFullRefs
+    );
+
+    expect(userVars.getDependents("nice")).toStrictEqual(["niceVar", "table"]);
+    expect(userVars.getDependents("nice", { transitive: true })).toStrictEqual([
+      "niceVar",
+      "table",
+      "niceVar2"
+    ]);
+    expect(userVars.getDependents("niceVar2")).toStrictEqual([]);
+  });
+
+  test("Graph", () => {
+    userVars.setVarBulk(
+      data.basicCircular1,
+      data.basicCircular2,
+      data.basicScopedVar
+    );
+
+    expect(userVars.getGraph()).toStrictEqual({
+      var1: ["var2"],
+      var2: ["var3"],
+      "scope1.niceVar": ["scope1.nice"]
+    });
+    expect(
+      userVars.getDependencies("var1", { transitive: true })
+    ).toStrictEqual(["var2", "var3"]);
+  });
+
+  test("Missing variable", () => {
+    expect(() => userVars.getDependencies("nope")).toThrow(ReferenceError);
+  });
+});
+
+describe("Cycles", () => {
+  test("Find 4 deep", () => {
+    userVars.setVarBulk(
+      data.basicGlobalLiteral,
+      data.basicCircular1,
+      data.basicCircular2,
+      data.basicCircular3,
+      data.basicCircular4
+    );
+
+    expect(userVars.findCycles()).toStrictEqual([
+      ["var1", "var2", "var3", "var4", "var1"]
+    ]);
+  });
+
+  test("Find self and list loops", () => {
+    userVars.setVarBulk(
+      data.basicCircular,
+      data.listCircular,
+      data.basicListCircular,
+      data.basicGlobalLiteral
+    );
+
+    expect(userVars.findCycles()).toStrictEqual([
+      ["var", "var"],
+      ["list", "var2", "list"]
+    ]);
+  });
+
+  test("No cycles", () => {
+    userVars.setVarBulk(data.basicGlobalLiteral, data.basicGlobalVar);
+
+    expect(userVars.findCycles()).toStrictEqual([]);
+  });
+
+  test("Reject closing definition", () => {
+    userVars = new UserVars({ rejectCycles: true });
+    userVars.setVarBulk(
+      data.basicCircular1,
+      data.basicCircular2,
+      data.basicCircular3
+    );
+
+    expect(() => userVars.setVar(data.basicCircular4)).toThrow(
+      CircularDependencyError
+    );
+
+    try {
+      userVars.setVar(data.basicCircular4);
+    } catch (err) {
+      expect((<CircularDependencyError>err).chain).toStrictEqual([
+        "var4",
+        "var1",
+        "var2",
+        "var3",
+        "var4"
+      ]);
+    }
+
+    expect(() => userVars.getRawVar("var4")).toThrow(ReferenceError);
+  });
+
+  test("Reject closing update", () => {
+    userVars = new UserVars({ rejectCycles: true });
+    userVars.setVarBulk(data.basicGlobalLiteral, data.basicGlobalVar);
+
+    expect(
+      userVars.updateVar({
+        ...data.basicGlobalLiteral,
+        value: { value: "niceVar", type: "reference" }
+      })
+    ).toStrictEqual({
+      path: "nice",
+      status: "rejected",
+      reason: "circularDependency",
+      cycle: ["nice", "niceVar", "nice"]
+    });
+  });
+});
+
+describe("Subscriptions", () => {
+  test("Dependent is notified", () => {
+    const callback = jest.fn();
+
+    userVars.setVarBulk(data.basicGlobalLiteral, data.basicGlobalVar);
+    userVars.subscribe("niceVar", callback);
+    userVars.updateVar(data.basicGlobalLiteral2);
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenCalledWith({
+      path: "niceVar",
+      oldValue: "cool",
+      newValue: "epic",
+      full: false
+    });
+  });
+
+  test("Creation and deletion", () => {
+    const callback = jest.fn();
+
+    userVars.subscribe("scope1.nice", callback);
+    userVars.setVar(data.basicScopedLiteral);
+    userVars.deleteScope("scope1");
+
+    expect(callback).toHaveBeenNthCalledWith(1, {
+      path: "scope1.nice",
+      oldValue: undefined,
+      newValue: "epic",
+      full: false
+    });
+    expect(callback).toHaveBeenNthCalledWith(2, {
+      path: "scope1.nice",
+      oldValue: "epic",
+      newValue: undefined,
+      full: false
+    });
+  });
+
+  test("Full table data", () => {
+    const callback = jest.fn();
+
+    userVars.setVarBulk(data.tableFullRefs, data.basicScopedLiteral);
+    userVars.subscribe("table", callback, { full: true });
+    userVars.setVar(data.basicGlobalLiteral);
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback.mock.calls[0][0].newValue).toStrictEqual(
+      data.fullTableRefOutput
+    );
+    expect(callback.mock.calls[0][0].oldValue.output).toBe(
+      "[MISSING REFERENCE]"
+    );
+  });
+
+  test("Bulk changes are batched", () => {
+    const callback = jest.fn();
+    const listener = jest.fn();
+
+    userVars.subscribe("niceVar2", callback);
+    userVars.on("change", listener);
+    userVars.setVarBulk(
+      data.basicGlobalLiteral,
+      data.basicGlobalVar,
+      data.basicGlobalVar2
+    );
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback.mock.calls[0][0].newValue).toBe("cool");
+    expect(listener).toHaveBeenCalledTimes(1);
+    const events: ChangeEvent[] = listener.mock.calls[0][0];
+
+    expect(events.map((i) => i.path)).toStrictEqual([
+      "nice",
+      "niceVar",
+      "niceVar2"
+    ]);
+  });
+
+  test("Unsubscribe and off", () => {
+    const callback = jest.fn();
+    const listener = jest.fn();
+
+    const unsubscribe = userVars.subscribe("nice", callback);
+    userVars.on("change", listener);
+
+    unsubscribe();
+    userVars.off("change", listener);
+    userVars.setVar(data.basicGlobalLiteral);
+
+    expect(callback).not.toHaveBeenCalled();
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test("Unknown event", () => {
+    expect(() => userVars.on("nope", () => {})).toThrow(TypeError);
+  });
+
+  test("Unchanged values aren't reported", () => {
+    const callback = jest.fn();
+    const listener = jest.fn();
+
+    userVars.setVarBulk(data.basicGlobalLiteral, data.basicGlobalVar);
+    userVars.subscribe("niceVar", callback);
+    userVars.on("change", listener);
+    userVars.updateVar(data.basicGlobalLiteral);
+
+    expect(callback).not.toHaveBeenCalled();
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test("Throwing callbacks don't stop the others", () => {
+    const callback = jest.fn();
+    const listener = jest.fn();
+    const throwing = () => {
+      throw new Error("subscriber");
+    };
+    let error: unknown;
+
+    userVars.subscribe("nice", throwing);
+    userVars.subscribe("nice", callback);
+    userVars.on("change", () => {
+      throw new Error("listener");
+    });
+    userVars.on("change", listener);
+
+    try {
+      userVars.setVar(data.basicGlobalLiteral);
+    } catch (err) {
+      error = err;
+    }
+
+    // the change is still made, and the errors are thrown together after it
+    expect(error).toBeInstanceOf(CallbackError);
+    expect(
+      (<CallbackError>error).errors.map((i) => (<Error>i).message)
+    ).toStrictEqual(["subscriber", "listener"]);
+    expect(userVars.getVar("nice")).toBe("cool");
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    const onCallbackError = jest.fn();
+
+    userVars = new UserVars({ onCallbackError });
+    userVars.subscribe("nice", throwing);
+
+    expect(userVars.setVar(data.basicGlobalLiteral)).toBe(true);
+    expect(onCallbackError).toHaveBeenCalledWith(new Error("subscriber"));
+  });
+});
+
+describe("Template", () => {
+  test("Placeholders, joins, and fallbacks", () => {
+    userVars.setVarBulk(
+      data.templateGreeting,
+      data.basicScopedLiteral,
+      data.basicGlobalLiteral,
+      data.listSublist
+    );
+    userVars.setVar({ ...data.listSublist, name: "list" });
+
+    expect(userVars.getVar("scope1.greeting")).toBe(
+      "Hello epic, cool has nice & nice3 and none"
+    );
+  });
+
+  test("Default list join", () => {
+    userVars.setVarBulk(data.listSublist, {
+      ...data.templateEscaped,
+      value: "{{sublist}}"
+    });
+
+    expect(userVars.getVar("escaped")).toBe("nice, nice3");
+  });
+
+  test("Escaped placeholder", () => {
+    userVars.setVarBulk(data.templateEscaped, data.basicGlobalLiteral);
+
+    expect(userVars.getVar("escaped")).toBe("{{nice}} is cool");
+  });
+
+  test("Missing reference", () => {
+    userVars.setVarBulk(data.templateMissing, data.basicGlobalLiteral);
+
+    expect(userVars.getVar("template")).toBe("cool and [MISSING nope]");
+    expect(() => userVars.getVar("template", { errors: "throw" })).toThrow(
+      MissingReferenceError
+    );
+  });
+
+  test("Fallback is replaced when the variable is created", () => {
+    userVars.setVar(data.templateGreeting);
+
+    expect(userVars.getVar("scope1.greeting")).toBe(
+      "Hello [MISSING nice], [MISSING ../nice] has [MISSING ../list] and none"
+    );
+
+    userVars.setVar({ ...data.basicScopedLiteral, name: "missing" });
+
+    expect(userVars.getVar("scope1.greeting")).toBe(
+      "Hello [MISSING nice], [MISSING ../nice] has [MISSING ../list] and epic"
+    );
+  });
+
+  test("Dependencies and renaming", () => {
+    userVars.setVarBulk(data.templateMissing, data.basicGlobalLiteral);
+
+    expect(userVars.getDependencies("template")).toStrictEqual([
+      "nice",
+      "nope"
+    ]);
+
+    userVars.renameVar("nice", "scope1.nice", { rewriteReferences: true });
+
+    expect(userVars.getRawVar("template").value).toBe(
+      "{{scope1.nice}} and {{nope}}"
+    );
+    expect(userVars.getVar("template")).toBe("cool and [MISSING nope]");
+  });
+
+  test("Invalid template", () => {
+    expect(
+      userVars.validateVar(data.templateInvalid).map((i) => i.code)
+    ).toStrictEqual(["invalidTemplate"]);
+  });
+});
+
+describe("render", () => {
+  test("Default syntax", () => {
+    userVars.setVarBulk(data.basicGlobalLiteral, data.listSublist);
+
+    expect(
+      userVars.render(
+        "{{nice}}: {{sublist | join(\"/\")}}, {{nope}} {{no ?? 'x'}}"
+      )
+    ).toStrictEqual({
+      text: "cool: nice/nice3, {{nope}} x",
+      unresolved: ["nope"]
+    });
+  });
+
+  test("Scope", () => {
+    userVars.setVarBulk(data.basicGlobalLiteral, data.basicScopedLiteral);
+
+    expect(
+      userVars.render("{{nice}} and {{../nice}}", { scope: "scope1" }).text
+    ).toBe("epic and cool");
+  });
+
+  test("Other syntaxes", () => {
+    userVars.setVar(data.basicGlobalLiteral);
+
+    expect(userVars.render("${nice} {{nice}}", { syntax: "dollar" }).text).toBe(
+      "cool {{nice}}"
+    );
+    expect(userVars.render("100%nice%", { syntax: "percent" }).text).toBe(
+      "100cool"
+    );
+    expect(
+      userVars.render("[[nice]]", { syntax: { open: "[[", close: "]]" } }).text
+    ).toBe("cool");
+  });
+
+  test("Strict", () => {
+    expect(() => userVars.render("{{nope}}", { strict: true })).toThrow(
+      MissingReferenceError
+    );
+    expect(() => userVars.render("{{nope}}", { strict: true })).toThrow(
+      /^Missing reference to nope$/
+    );
+  });
+
+  test("Malformed placeholders", () => {
+    userVars.setVar(data.basicGlobalLiteral);
+
+    expect(userVars.render("x = {{ not a var }} y, {{nice}}")).toStrictEqual({
+      text: "x = {{ not a var }} y, cool",
+      unresolved: ["{{ not a var }}"]
+    });
+    expect(userVars.render("open {{ only")).toStrictEqual({
+      text: "open {{ only",
+      unresolved: ["{{ only"]
+    });
+    expect(userVars.render("{{}} {{nope}}")).toStrictEqual({
+      text: "{{}} {{nope}}",
+      unresolved: ["{{}}", "nope"]
+    });
+    expect(userVars.render("`${a + b}`", { syntax: "dollar" })).toStrictEqual({
+      text: "`${a + b}`",
+      unresolved: ["${a + b}"]
+    });
+    expect(
+      userVars.render("Save 50% today, %nice%!", { syntax: "percent" })
+    ).toStrictEqual({
+      text: "Save 50% today, cool!",
+      unresolved: []
+    });
+    expect(() => userVars.render("{{}}", { strict: true })).toThrow(
+      SyntaxError
+    );
+  });
+});
+
+describe("Nested scopes", () => {
+  test("normalizePath", () => {
+    expect(normalizePath("team.project.env.url")).toBe("team.project.env.url");
+    expect(normalizePath("url", "team.project")).toBe("team.project.url");
+    expect(normalizePath("./url", "team.project")).toBe("team.project.url");
+    expect(normalizePath("../url", "team.project")).toBe("team.url");
+    expect(normalizePath("../../url", "team.project")).toBe("url");
+    expect(normalizePath("../../../url", "team.project")).toBe("url");
+    expect(normalizePath("../other.url", "team.project")).toBe(
+      "team.other.url"
+    );
+    expect(normalizePath("global.url", "team.project")).toBe("url");
+  });
+
+  test("Deep paths", () => {
+    userVars.setVarBulk(data.basicNestedLiteral, data.basicNestedVar);
+
+    expect(userVars.getVar("team.project.env.nice")).toBe("deep");
+    expect(userVars.getVar("team.project.env.url")).toBe("deep");
+    expect(userVars.getRawVar("team.project.env.url").scope).toBe(
+      "team.project.env"
+    );
+    expect(() => userVars.getVar("team.url")).toThrow(ReferenceError);
+  });
+
+  test("Relative paths", () => {
+    userVars.setVarBulk(
+      data.basicGlobalLiteral,
+      data.basicNestedTeam,
+      data.basicNestedLiteral,
+      data.basicNestedParent,
+      data.basicNestedGlobal,
+      data.basicNestedCurrent
+    );
+
+    expect(userVars.getVar("team.project.env.parent")).toBe(
+      "[MISSING REFERENCE]"
+    );
+    expect(userVars.getVar("team.project.env.root")).toBe("cool");
+    expect(userVars.getVar("team.project.current")).toBe("[MISSING REFERENCE]");
+  });
+
+  test("Lexical fallback", () => {
+    userVars.setVarBulk(data.basicGlobalLiteral, data.basicNestedFallback);
+
+    expect(userVars.resolvePath("nice", "team.project")).toBe("nice");
+    expect(userVars.getVar("team.project.fallback")).toBe("cool");
+    expect(userVars.getDependencies("team.project.fallback")).toStrictEqual([
+      "nice"
+    ]);
+
+    // a closer variable shadows the global one
+    userVars.setVar(data.basicNestedTeam);
+
+    expect(userVars.resolvePath("nice", "team.project")).toBe("team.nice");
+    expect(userVars.getVar("team.project.fallback")).toBe("team");
+  });
+
+  test("Scope validation", () => {
+    expect(() =>
+      userVars.setVar({ ...data.basicGlobalLiteral, scope: "team..project" })
+    ).toThrow();
+    expect(
+      userVars.upsertVar({ ...data.basicGlobalLiteral, scope: "team.global" })
+        .reason
+    ).toBe("invalidScope");
+  });
+
+  test("Scope conflicts", () => {
+    userVars.setVar(data.basicNestedTeam);
+
+    expect(
+      userVars.setVar({ ...data.basicNestedLiteral, scope: "team.nice.env" })
+    ).toBe(false);
+    expect(
+      userVars.upsertVar({ ...data.basicNestedLiteral, scope: "team.nice" })
+        .reason
+    ).toBe("varConflict");
+  });
+
+  test("getAllVars", () => {
+    userVars.setVarBulk(
+      data.basicGlobalLiteral,
+      data.basicNestedTeam,
+      data.basicNestedLiteral
+    );
+
+    expect(userVars.getAllVars()).toStrictEqual({
+      nice: "cool",
+      team: { nice: "team", project: { env: { nice: "deep" } } }
+    });
+    expect(userVars.getAllVars(false, true)).toStrictEqual({
+      "global.nice": "cool",
+      "team.nice": "team",
+      "team.project.env.nice": "deep"
+    });
+  });
+
+  test("deleteScope", () => {
+    userVars.setVarBulk(
+      data.basicGlobalLiteral,
+      data.basicNestedTeam,
+      data.basicNestedLiteral,
+      data.basicNestedFallback
+    );
+
+    expect(userVars.deleteScope("team.project")).toBe(true);
+    expect(userVars.vars).toStrictEqual({
+      nice: data.basicGlobalLiteral,
+      team: { nice: data.basicNestedTeam }
+    });
+  });
+});
+
+describe("Scope inheritance", () => {
+  beforeEach(() => {
+    userVars.setVarBulk(
+      data.basicBaseName,
+      data.basicBaseLabel,
+      data.basicTenantName
+    );
+    userVars.setScope("tenantA", { extends: "base" });
+    userVars.setScope("tenantB", { extends: ["base"] });
+  });
+
+  test("Inherited variables", () => {
+    expect(userVars.getVar("base.label")).toBe("Base");
+    expect(userVars.getVar("tenantA.label")).toBe("Tenant A");
+    expect(userVars.getVar("tenantB.label")).toBe("Base");
+    expect(userVars.getRawVar("tenantB.label").scope).toBe("tenantB");
+    expect(userVars.resolvePath("label", "tenantA")).toBe("tenantA.label");
+    expect(() => userVars.getVar("tenantB.nope")).toThrow(ReferenceError);
+  });
+
+  test("Multiple bases", () => {
+    userVars.setScope("tenantC", { extends: ["tenantA", "base"] });
+
+    expect(userVars.getVar("tenantC.label")).toBe("Tenant A");
+  });
+
+  test("Invalidation", () => {
+    userVars.getVar("tenantA.label");
+    userVars.getVar("tenantB.label");
+
+    expect(userVars.deps["base.label"]).toStrictEqual(
+      new Set(["tenantA.label", "tenantB.label"])
+    );
+
+    userVars.updateVar(data.basicBaseName2);
+
+    expect(userVars.getVar("tenantA.label")).toBe("Tenant A");
+    expect(userVars.getVar("tenantB.label")).toBe("New base");
+
+    // overriding an inherited variable
+    userVars.upsertVar(data.basicTenantLabel);
+
+    expect(userVars.getVar("tenantB.label")).toBe("Tenant B label");
+
+    // removing the base
+    userVars.setScope("tenantA");
+
+    expect(userVars.getVar("tenantA.name")).toBe("Tenant A");
+    expect(() => userVars.getVar("tenantA.label")).toThrow(ReferenceError);
+  });
+
+  test("Dependency graph", () => {
+    expect(userVars.getDependencies("tenantA.label")).toStrictEqual([
+      "tenantA.name"
+    ]);
+    expect(userVars.getDependencies("tenantB.label")).toStrictEqual([
+      "tenantB.name"
+    ]);
+    expect(userVars.getDependents("tenantB.name")).toStrictEqual([
+      "tenantB.label"
+    ]);
+    expect(userVars.getGraph()["tenantB.name"]).toStrictEqual([]);
+  });
+
+  test("getAllVars", () => {
+    expect(userVars.getAllVars()).toStrictEqual({
+      base: { name: "Base", label: "Base" },
+      tenantA: { name: "Tenant A", label: "Tenant A" },
+      tenantB: { name: "Base", label: "Base" }
+    });
+  });
+
+  test("Snapshots", () => {
+    const restored = UserVars.fromJSON(JSON.stringify(userVars));
+
+    expect(restored.scopes).toStrictEqual({
+      tenantA: { extends: ["base"] },
+      tenantB: { extends: ["base"] }
+    });
+    expect(restored.getVar("tenantA.label")).toBe("Tenant A");
+  });
+
+  test("Invalid scopes", () => {
+    expect(userVars.setScope("global", { extends: "base" })).toBe(false);
+    expect(userVars.setScope("tenantA", { extends: "global" })).toBe(false);
+    expect(userVars.setScope("tenant..A")).toBe(false);
+  });
+});
+
+describe("Expression options", () => {
+  test("Host functions and constants", () => {
+    userVars = new UserVars({
+      expressions: {
+        functions: {
+          round: (x: number, digits: number) =>
+            Math.round(x * 10 ** digits) / 10 ** digits,
+          double: (x: number) => x * 2
+        },
+        constants: { TAX: 0.2 }
+      }
+    });
+    userVars.setVar(data.expressionHost);
+
+    expect(userVars.getVar("host")).toBe("5.6");
+  });
+
+  test("Disabled operators", () => {
+    userVars = new UserVars({
+      expressions: { operators: { conditional: false } }
+    });
+    userVars.setVar(data.expressionConditional);
+
+    expect(() => userVars.getVar("conditional", { errors: "throw" })).toThrow(
+      ExpressionError
+    );
+  });
+
+  test("Scope policies", () => {
+    userVars = new UserVars({
+      expressions: {
+        scopes: {
+          untrusted: {
+            functions: ["max"],
+            constants: [],
+            operators: ["add", "comparison"]
+          }
+        }
+      }
+    });
+
+    const expressions = ["min(x, 2)", "x * 2", "sqrt(x)", "PI"];
+
+    userVars.setVar(data.expressionPolicy);
+
+    expect(userVars.getVar("untrusted.sub.allowed")).toBe("3");
+
+    for (let i of expressions) {
+      userVars.upsertVar({ ...data.expressionPolicy, value: i });
+      userVars.upsertVar({
+        ...data.expressionPolicy,
+        scope: "global",
+        value: i
+      });
+
+      expect(() =>
+        userVars.getVar("untrusted.sub.allowed", { errors: "throw" })
+      ).toThrow(ExpressionError);
+      // the same expression is fine outside of the scope
+      expect(() =>
+        userVars.getVar("allowed", { errors: "throw" })
+      ).not.toThrow();
+    }
+  });
+});
+
+describe("Typed values", () => {
+  beforeEach(() => {
+    userVars = new UserVars({ typed: true });
+    userVars.setVarBulk(data.typedNum, data.typedFlag, data.typedConfig);
+  });
+
+  test("Literals", () => {
+    expect(userVars.getVar("typedNum")).toBe(1000);
+    expect(userVars.getVar("typedFlag")).toBe(true);
+    expect(userVars.getVar("typedConfig")).toStrictEqual({
+      size: 2,
+      tags: ["a", "b"]
+    });
+
+    userVars.setVar(data.typedList);
+
+    expect(userVars.getVar("typedList")).toStrictEqual(["x", 2, 1000]);
+  });
+
+  test("Literals are strings without the typed option", () => {
+    userVars = new UserVars();
+    userVars.setVar(data.typedNum);
+
+    expect(userVars.getVar("typedNum")).toBe("1000");
+  });
+
+  test("Invalid literals", () => {
+    userVars.updateVar({
+      ...data.typedNum,
+      value: { type: "literal", value: "12px", valueType: "number" }
+    });
+
+    expect(userVars.getVar("typedNum")).toBe("[NOT A NUMBER 12px]");
+    expect(() => userVars.getVar("typedNum", { errors: "throw" })).toThrow(
+      TypeMismatchError
+    );
+
+    userVars.updateVar({
+      ...data.typedFlag,
+      value: { type: "literal", value: "toString", valueType: "boolean" }
+    });
+
+    expect(userVars.getVar("typedFlag")).toBe("[NOT A BOOLEAN toString]");
+  });
+
+  test("Expressions keep their native result", () => {
+    userVars.setVar(data.typedExpression);
+
+    expect(userVars.getVar("typedExpression")).toStrictEqual([
+      2000,
+      true,
+      "a, b"
+    ]);
+    expect(userVars.getAllVars()).toStrictEqual({
+      typedNum: 1000,
+      typedFlag: true,
+      typedConfig: { size: 2, tags: ["a", "b"] },
+      typedExpression: [2000, true, "a, b"]
+    });
+  });
+
+  test("Numeric comparisons", () => {
+    userVars.setVar(data.typedTable);
+
+    expect(userVars.getVar("typedTable")).toBe(1);
+
+    userVars.updateVar({ ...data.typedNum, value: "1000" });
+
+    // strings aren't converted to numbers
+    expect(userVars.getVar("typedTable")).toBe(null);
+    expect(() => userVars.getVar("typedTable", { errors: "throw" })).toThrow(
+      TypeMismatchError
+    );
+  });
+
+  test("Falsy values are cached", () => {
+    const zero = jest.fn(() => 0);
+
+    userVars = new UserVars({
+      typed: true,
+      expressions: { functions: { zero } }
+    });
+    userVars.setVarBulk(data.typedZero, data.typedOff);
+
+    expect(userVars.getVar("typedZero")).toBe(0);
+    expect(userVars.getVar("typedOff")).toBe(false);
+    expect(userVars.getVar("typedZero")).toBe(0);
+    expect(userVars.getVar("typedOff")).toBe(false);
+    expect(zero).toHaveBeenCalledTimes(2);
+  });
+
+  test("Templates", () => {
+    userVars.setVarBulk(data.typedList, data.typedTemplate);
+
+    expect(userVars.getVar("typedTemplate")).toBe(
+      '1000 {"size":2,"tags":["a","b"]} x/2/1000'
+    );
+  });
+});
+
+describe("Declared types", () => {
+  test("Values are checked when they resolve", () => {
+    userVars.setVarBulk(data.declaredPrice, data.declaredLevel);
+
+    expect(userVars.getVar("price")).toBe("12");
+    expect(userVars.getVar("level")).toBe("low");
+
+    userVars.updateVar({ ...data.declaredPrice, value: "12px" });
+
+    expect(userVars.getVar("price")).toBe("[NOT A NUMBER price]");
+    expect(() => userVars.getVar("price", { errors: "throw" })).toThrow(
+      'Variable price must be a number, got "12px"'
+    );
+  });
+
+  test("Constraints", () => {
+    userVars.setVarBulk(data.declaredPrice, data.declaredLevel);
+    userVars.updateVar({ ...data.declaredPrice, value: "120" });
+    userVars.updateVar({ ...data.declaredLevel, value: "medium" });
+
+    expect(userVars.getVar("price")).toBe("[INVALID price]");
+
+    const result = userVars.getVar("level", { errors: "result" });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toBeInstanceOf(ConstraintError);
+      expect((<ConstraintError>result.error).constraint).toBe("values");
+      expect(result.error.message).toBe(
+        "Variable level must be one of low, high"
+      );
+    }
+  });
+
+  test("Lists check each item", () => {
+    userVars.setVar(data.declaredCodes);
+
+    expect(userVars.getVar("codes")).toStrictEqual(["1", "2", "3"]);
+
+    userVars.updateVar({ ...data.declaredCodes, value: ["1", "2.5"] });
+
+    expect(() => userVars.getVar("codes", { errors: "throw" })).toThrow(
+      "Variable codes item 1 must be an integer, got 2.5"
+    );
+  });
+
+  test("Booleans", () => {
+    userVars.setVarBulk(
+      { ...data.basicGlobalLiteral, valueType: "boolean", value: "true" },
+      { ...data.basicGlobalVar, valueType: "boolean", value: "toString" }
+    );
+
+    expect(userVars.getVar("nice")).toBe("true");
+    expect(() => userVars.getVar("niceVar", { errors: "throw" })).toThrow(
+      'Variable niceVar must be a boolean, got "toString"'
+    );
+  });
+
+  test("Values are converted with the typed option", () => {
+    userVars = new UserVars({ typed: true });
+    userVars.setVarBulk(data.declaredPrice, data.declaredCodes);
+
+    expect(userVars.getVar("price")).toBe(12);
+    expect(userVars.getVar("codes")).toStrictEqual([1, 2, 3]);
+  });
+
+  test("Invalid declarations", () => {
+    expect(
+      userVars.validateVar(data.declaredInvalid).map((i) => [i.pointer, i.code])
+    ).toStrictEqual([
+      ["/valueType", "invalidValueType"],
+      ["/constraints/min", "invalidValue"],
+      ["/constraints/pattern", "invalidPattern"]
+    ]);
+    expect(
+      userVars.validateVar({ ...data.declaredLevel, constraints: {} })
+    ).toHaveLength(1);
+  });
+
+  test("References that don't fit their slot are warnings", () => {
+    userVars.setVarBulk(
+      data.declaredPrice,
+      data.declaredLevel,
+      data.declaredCodes
+    );
+
+    const diagnostics = userVars.validateVar(data.declaredSlots);
+
+    expect(diagnostics.map((i) => [i.pointer, i.code])).toStrictEqual([
+      ["/value/0/conditions/0/val1", "typeMismatch"],
+      ["/value/0/conditions/2/not/val2", "typeMismatch"],
+      ["/value/0/output/vars/x", "typeMismatch"]
+    ]);
+    expect(diagnostics[0].severity).toBe("warning");
+    expect(diagnostics[0].message).toBe(
+      "level is declared as enum, but a number is expected"
+    );
+    expect(userVars.setVar(data.declaredSlots)).toBe(true);
+  });
+});
+
+describe("Objects", () => {
+  beforeEach(() => {
+    userVars.setVarBulk(data.objectTheme, data.objectBrand);
+  });
+
+  test("Objects evaluate every property", () => {
+    expect(userVars.getVar("theme")).toStrictEqual({
+      colors: { primary: "#f00", secondary: "#00f" },
+      size: "2"
+    });
+  });
+
+  test("Property references", () => {
+    userVars.setVarBulk(
+      data.objectPrimary,
+      data.objectSecondary,
+      data.objectItems,
+      data.objectItem
+    );
+
+    expect(userVars.getVar("primary")).toBe("#f00");
+    expect(userVars.getVar("secondary")).toBe("#00f");
+    expect(userVars.getVar("theme.colors")).toStrictEqual({
+      primary: "#f00",
+      secondary: "#00f"
+    });
+    expect(userVars.getVar("scope.item")).toStrictEqual([
+      "first",
+      "c",
+      "[MISSING items[3]]"
+    ]);
+    expect(userVars.resolvePath("items[2]", "scope")).toBe("scope.items.2");
+  });
+
+  test("Expressions can access properties", () => {
+    userVars = new UserVars({ typed: true });
+    userVars.setVarBulk(
+      data.objectTheme,
+      data.objectBrand,
+      data.objectExpression
+    );
+
+    expect(userVars.getVar("double")).toBe(4);
+  });
+
+  test("Changing a property only invalidates its consumers", () => {
+    userVars.setVarBulk(data.objectPrimary, data.objectSecondary);
+    userVars.getVar("primary");
+    userVars.getVar("secondary");
+
+    const { value } = data.objectTheme;
+
+    userVars.updateVar({
+      ...data.objectTheme,
+      value: { ...value, colors: { ...value.colors, primary: "#0f0" } }
+    });
+
+    expect(userVars.changed.primary).toBe(true);
+    expect(userVars.changed.secondary).toBe(false);
+    expect(userVars.getVar("primary")).toBe("#0f0");
+
+    userVars.updateVar({ ...data.objectBrand, value: "#fff" });
+
+    expect(userVars.getVar("secondary")).toBe("#fff");
+  });
+
+  test("Dependencies and renaming", () => {
+    userVars.setVar(data.objectPrimary);
+
+    expect(userVars.getDependencies("primary")).toStrictEqual(["theme"]);
+
+    userVars.renameVar("theme", "ui.theme", { rewriteReferences: true });
+
+    expect(userVars.getRawVar("primary").value).toStrictEqual({
+      type: "reference",
+      value: "ui.theme.colors.primary"
+    });
+    expect(userVars.getVar("primary")).toBe("#f00");
+  });
+
+  test("Invalid keys and properties", () => {
+    expect(
+      userVars.validateVar(data.objectInvalid).map((i) => [i.pointer, i.code])
+    ).toStrictEqual([
+      ["/value/a.b", "invalidName"],
+      ["/value/c/d", "invalidValue"]
+    ]);
+  });
+});
+
+describe("List operations", () => {
+  beforeEach(() => {
+    userVars.setVarBulk(data.listOpPrices, data.listOpFactor);
+  });
+
+  test("Filter, unique, and sort", () => {
+    userVars.setVar(data.listOpCheap);
+
+    expect(userVars.getVar("cheap")).toStrictEqual(["8", "5", "3"]);
+  });
+
+  test("Map with templates and join", () => {
+    userVars.setVarBulk(data.listOpCheap, data.listOpLabels);
+
+    expect(userVars.getVar("labels")).toBe("#0: 8; #1: 5; #2: 3");
+  });
+
+  test("Map with expressions, slice, and reverse", () => {
+    userVars.setVar(data.listOpDoubled);
+
+    expect(userVars.getVar("doubled")).toStrictEqual(["24", "6"]);
+    expect(userVars.getDependencies("doubled")).toStrictEqual([
+      "prices",
+      "factor"
+    ]);
+
+    userVars.updateVar({ ...data.listOpFactor, value: "3" });
+
+    expect(userVars.getVar("doubled")).toStrictEqual(["36", "9"]);
+  });
+
+  test("Flatten and count", () => {
+    userVars = new UserVars({ typed: true });
+    userVars.setVar(data.listOpNested);
+
+    expect(userVars.getVar("nested")).toBe(3);
+  });
+
+  test("Full output traces every step", () => {
+    userVars.setVar(data.listOpCheap);
+
+    const full = <ListOpData>userVars.getVar("cheap", true);
+
+    expect(full.source).toStrictEqual(["5", "3", "12", "3", "8"]);
+    expect(full.sourcePath).toBe("prices");
+    expect(full.steps.map((i) => i.output)).toStrictEqual([
+      ["5", "3", "3", "8"],
+      ["5", "3", "8"],
+      ["8", "5", "3"]
+    ]);
+    expect(full.steps[0].conditions?.map((i) => i.passed)).toStrictEqual([
+      true,
+      true,
+      false,
+      true,
+      true
+    ]);
+    expect(full.output).toStrictEqual(["8", "5", "3"]);
+  });
+
+  test("$item only exists in steps", () => {
+    userVars.setVar({
+      name: "item",
+      scope: "global",
+      value: { type: "reference", value: "$item" },
+      varType: "basic"
+    });
+
+    expect(userVars.getVar("item")).toBe("[MISSING REFERENCE]");
+  });
+
+  test("Invalid steps", () => {
+    expect(
+      userVars.validateVar(data.listOpInvalid).map((i) => [i.pointer, i.code])
+    ).toStrictEqual([
+      ["/steps/0/op", "invalidOperation"],
+      ["/steps/1/op", "invalidOperation"],
+      ["/steps/2", "invalidObject"],
+      ["/steps/3/order", "invalidValue"],
+      ["/steps/4/start", "invalidValue"]
+    ]);
+  });
+});
+
+describe("Aggregates", () => {
+  beforeEach(() => {
+    userVars.setVarBulk(
+      data.aggregateApple,
+      data.aggregatePear,
+      data.aggregateNote,
+      data.aggregateScores
+    );
+  });
+
+  test("Wildcards follow the variables in a scope", () => {
+    userVars.setVar(data.aggregateTotal);
+
+    expect(userVars.getVar("total")).toBe("3.5");
+    expect(userVars.getDependencies("total")).toStrictEqual([
+      "cart.apple",
+      "cart.note",
+      "cart.pear"
+    ]);
+
+    userVars.setVar({ ...data.aggregatePear, name: "plum", value: "4" });
+
+    expect(userVars.getVar("total")).toBe("7.5");
+
+    userVars.deleteVar("cart.pear");
+
+    expect(userVars.getVar("total")).toBe("5.5");
+  });
+
+  test("Wildcards leave out the variable using them", () => {
+    userVars.setVar({
+      ...data.aggregateTotal,
+      scope: "cart",
+      value: { type: "reference", value: "*" }
+    });
+
+    expect(userVars.getVar("cart.total")).toBe("3.5");
+    expect(userVars.findCycles()).toStrictEqual([]);
+  });
+
+  test("Wildcards in the scope of the variable using them", () => {
+    userVars.setVar({ ...data.aggregateTotal, scope: "cart" });
+
+    expect(userVars.getVar("cart.total")).toBe("3.5");
+
+    userVars.updateVar({ ...data.aggregatePear, value: "3" });
+
+    expect(userVars.getVar("cart.total")).toBe("4.5");
+
+    userVars.setVar({ ...data.aggregateApple, name: "plum" });
+
+    expect(userVars.getVar("cart.total")).toBe("6");
+
+    userVars.deleteVar("cart.apple");
+
+    expect(userVars.getVar("cart.total")).toBe("4.5");
+  });
+
+  test("Wildcards count variables, not list items", () => {
+    userVars.setVarBulk(
+      { ...data.aggregateScores, scope: "cart" },
+      { ...data.aggregateTotal, op: "count" }
+    );
+
+    expect(userVars.getVar("total")).toBe("4");
+
+    userVars.updateVar({ ...data.aggregateTotal, op: "sum" });
+
+    expect(userVars.getVar("total")).toBe("23.5");
+  });
+
+  test("Lists and several sources", () => {
+    userVars = new UserVars({ typed: true });
+    userVars.setVarBulk(data.aggregateScores, data.aggregateMedian);
+
+    expect(userVars.getVar("median")).toBe(4);
+
+    const results = ["avg", "min", "max", "product", "count"].map((op) => {
+      userVars.updateVar({ ...data.aggregateMedian, op });
+
+      return userVars.getVar("median");
+    });
+
+    expect(results).toStrictEqual([4.6, 1, 9, 648, 5]);
+
+    userVars.updateVar({
+      ...data.aggregateMedian,
+      op: "concat",
+      separator: "-"
+    });
+
+    expect(userVars.getVar("median")).toBe("4-9-1-6-3");
+  });
+
+  test("Empty numeric aggregates", () => {
+    userVars.setVar({ ...data.aggregateTotal, op: "avg", value: [] });
+
+    expect(userVars.getVar("total")).toBe("");
+  });
+
+  test("Non-numeric members can be errors", () => {
+    userVars.setVar(data.aggregateStrict);
+
+    expect(userVars.getVar("strict")).toBe("[NOT A NUMBER gift]");
+    expect(() => userVars.getVar("strict", { errors: "throw" })).toThrow(
+      TypeMismatchError
+    );
+
+    userVars.deleteVar("cart.note");
+
+    expect(userVars.getVar("strict")).toBe("2");
+  });
+
+  test("Invalid aggregates", () => {
+    expect(
+      userVars
+        .validateVar(data.aggregateInvalid)
+        .map((i) => [i.pointer, i.code])
+    ).toStrictEqual([
+      ["/op", "invalidOperation"],
+      ["/value/1", "invalidValue"],
+      ["/nonNumeric", "invalidValue"]
+    ]);
+  });
+});
+
+describe("Patterns", () => {
+  beforeEach(() => {
+    userVars.setVarBulk(
+      data.patternApple,
+      data.patternPear,
+      data.patternShopEnabled,
+      data.patternBlogEnabled
+    );
+  });
+
+  test("Expand to lists in order of their paths", () => {
+    userVars.setVar(data.patternList);
+
+    expect(userVars.getVar("all_prices")).toStrictEqual(["3", "5", "1"]);
+    expect(userVars.getDependencies("all_prices")).toStrictEqual([
+      "prices.apple",
+      "prices.pear"
+    ]);
+
+    userVars.setVar({ ...data.patternApple, name: "banana", value: "2" });
+
+    expect(userVars.getVar("all_prices")).toStrictEqual(["3", "2", "5", "1"]);
+
+    userVars.updateVar({ ...data.patternPear, value: "6" });
+
+    expect(userVars.getVar("all_prices")).toStrictEqual(["3", "2", "6", "1"]);
+
+    userVars.upsertVar({ ...data.patternApple, name: "cherry", value: "4" });
+
+    expect(userVars.getVar("all_prices")).toStrictEqual([
+      "3",
+      "2",
+      "4",
+      "6",
+      "1"
+    ]);
+  });
+
+  test("Match variables in every scope", () => {
+    userVars.setVar(data.patternTable);
+
+    expect(userVars.getVar("anything_off")).toBe("yes");
+
+    userVars.updateVar({ ...data.patternBlogEnabled, value: "yes" });
+
+    expect(userVars.getVar("anything_off")).toBe("no");
+
+    userVars.setVar({ ...data.patternBlogEnabled, scope: "docs" });
+
+    expect(userVars.getVar("anything_off")).toBe("yes");
+  });
+
+  test("Expression vars", () => {
+    userVars.setVar(data.patternExpression);
+
+    expect(userVars.getVar("highest")).toBe("5");
+
+    userVars.setVar({ ...data.patternApple, name: "plum", value: "9" });
+
+    expect(userVars.getVar("highest")).toBe("9");
+  });
+
+  test("Restored snapshots follow added variables", () => {
+    userVars.setVar(data.patternList);
+    userVars.getVar("all_prices");
+
+    const restored = UserVars.fromJSON(userVars.toJSON({ cache: true }));
+
+    restored.setVar({ ...data.patternApple, name: "banana", value: "2" });
+
+    expect(restored.getVar("all_prices")).toStrictEqual(["3", "2", "5", "1"]);
+  });
+
+  test("Globs within names", () => {
+    userVars.setVarBulk(
+      data.patternFlags,
+      {
+        name: "dark_enabled",
+        scope: "settings",
+        value: "on",
+        varType: "basic"
+      },
+      {
+        name: "beta_enabled",
+        scope: "settings",
+        value: "off",
+        varType: "basic"
+      },
+      { name: "language", scope: "settings", value: "en", varType: "basic" }
+    );
+
+    expect(userVars.getVar("flags")).toStrictEqual(["off", "on"]);
+
+    userVars.deleteVar("settings.dark_enabled");
+
+    expect(userVars.getVar("flags")).toStrictEqual(["off"]);
+  });
+
+  test("Templates join the matches", () => {
+    userVars.setVar({
+      name: "price_list",
+      scope: "global",
+      value: 'Prices: {{prices.* | join("/")}}',
+      varType: "template"
+    });
+
+    expect(userVars.getVar("price_list")).toBe("Prices: 3/5");
+  });
+});
+
+describe("Overrides", () => {
+  beforeEach(() => {
+    userVars.setVarBulk(
+      data.overrideTier,
+      data.overrideBase,
+      data.overrideDiscount,
+      data.overridePrice
+    );
+  });
+
+  test("Evaluate with literal overrides", () => {
+    expect(userVars.getVar("price")).toBe("95");
+
+    const cache = { ...userVars.cache };
+    const result = userVars.evaluateWith("price", {
+      "team.tier": "gold",
+      unused: "1"
+    });
+
+    expect(result).toStrictEqual({ value: "80", influencedBy: ["team.tier"] });
+    expect(userVars.cache).toStrictEqual(cache);
+    expect(userVars.getRawVar("team.tier").value).toBe("silver");
+    expect(userVars.getVar("price")).toBe("95");
+  });
+
+  test("Overrides don't change shared scopes", () => {
+    const team = userVars.vars.team;
+
+    userVars.evaluateWith("price", { "team.size": "4", "other.tier": "gold" });
+
+    expect(userVars.vars.team).toBe(team);
+    expect(Object.keys(userVars.vars.team)).toStrictEqual(["tier"]);
+    expect(userVars.vars.other).toBeUndefined();
+  });
+
+  test("Override with variables", () => {
+    const result = userVars.evaluateWith(
+      "discount",
+      {
+        discount: { ...data.overrideDiscount, default: "10" },
+        base: "50"
+      },
+      { full: true }
+    );
+
+    expect((<TableData>result.value).output).toBe("10");
+    expect(result.influencedBy).toStrictEqual(["discount"]);
+  });
+
+  test("Override objects read through properties", () => {
+    userVars.setVarBulk(data.objectTheme, data.objectBrand, data.objectPrimary);
+
+    const result = userVars.evaluateWith("primary", {
+      theme: { ...data.objectTheme, value: { colors: { primary: "#0f0" } } },
+      brand: "#000"
+    });
+
+    expect(result).toStrictEqual({ value: "#0f0", influencedBy: ["theme"] });
+  });
+
+  test("Typed literals", () => {
+    userVars = new UserVars({ typed: true });
+    userVars.setVarBulk(data.overrideBase, data.overridePrice);
+
+    expect(
+      userVars.evaluateWith("price", { base: 100, discount: 50 }).value
+    ).toBe(50);
+    expect(
+      userVars.evaluateWith("list", { list: [1, "a", null, { b: true }] }).value
+    ).toStrictEqual([1, "a", null, { b: true }]);
+  });
+});
+
+describe("Context", () => {
+  const admin = { user: { role: "admin", name: "Ada" }, rate: "0.2" };
+  const guest = { user: { role: "guest" }, rate: "0.1" };
+
+  test("References read the context", () => {
+    userVars.setVarBulk(data.contextRole, data.contextGreeting);
+
+    expect(userVars.getVar("role", { context: admin })).toBe("admin");
+    expect(userVars.getVar("greeting", { context: admin })).toBe(
+      "Hello Ada, you are admin"
+    );
+    expect(userVars.getVar("greeting", { context: guest })).toBe(
+      "Hello guest, you are guest"
+    );
+    expect(userVars.getVar("role")).toBe("[MISSING REFERENCE]");
+    expect(() =>
+      userVars.getVar("role", { errors: "throw", context: {} })
+    ).toThrow(MissingReferenceError);
+  });
+
+  test("Cached by the context values read", () => {
+    const track = jest.fn((rate: number) => rate);
+
+    userVars = new UserVars({ expressions: { functions: { track } } });
+    userVars.setVarBulk(data.contextTax, data.contextSite);
+
+    expect(userVars.getVar("tax", { context: admin })).toBe("20");
+    expect(userVars.getVar("tax", { context: guest })).toBe("10");
+    expect(track).toHaveBeenCalledTimes(2);
+
+    // only the rate was read, so other context values don't matter
+    expect(
+      userVars.getVar("tax", { context: { ...admin, user: { role: "x" } } })
+    ).toBe("20");
+    expect(userVars.getVar("tax", { context: guest })).toBe("10");
+    expect(track).toHaveBeenCalledTimes(2);
+
+    // variables that don't read the context are cached for every context
+    expect(userVars.getVar("site", { context: admin })).toBe("shop");
+    expect(userVars.cache).toStrictEqual({ site: "shop" });
+
+    userVars.updateVar({ ...data.contextTax, value: "track(rate) * 10" });
+
+    expect(userVars.getVar("tax", { context: admin })).toBe("2");
+    expect(track).toHaveBeenCalledTimes(3);
+  });
+
+  test("Dependents of context readers are segmented too", () => {
+    userVars.setVarBulk(data.contextRole, {
+      name: "roles",
+      scope: "global",
+      value: [{ type: "reference", value: "role" }, "owner"],
+      varType: "list"
+    });
+
+    expect(userVars.getVar("roles", { context: admin })).toStrictEqual([
+      "admin",
+      "owner"
+    ]);
+    expect(userVars.getVar("roles", { context: guest })).toStrictEqual([
+      "guest",
+      "owner"
+    ]);
+    expect(userVars.cache).toStrictEqual({});
+  });
+});
+
+describe("Explain", () => {
+  beforeEach(() => {
+    userVars.setVarBulk(
+      data.explainSize,
+      data.explainArea,
+      data.explainAlias,
+      data.explainLabel
+    );
+  });
+
+  test("References and expression inputs", () => {
+    expect(userVars.explain("alias")).toMatchObject({
+      kind: "variable",
+      path: "alias",
+      detail: "basic",
+      cached: false,
+      value: "16",
+      steps: [
+        {
+          kind: "reference",
+          reference: "shapes.area",
+          path: "shapes.area",
+          value: "16",
+          steps: [
+            {
+              kind: "variable",
+              path: "shapes.area",
+              detail: "expression",
+              steps: [
+                {
+                  kind: "reference",
+                  reference: "size",
+                  path: "size",
+                  steps: [{ kind: "variable", path: "size", value: "4" }]
+                },
+                {
+                  kind: "expression",
+                  detail: "x * x",
+                  input: { x: "4" },
+                  value: "16"
+                }
+              ]
+            }
+          ]
+        }
+      ]
+    });
+  });
+
+  test("Cache hits", () => {
+    userVars.getVar("alias");
+
+    expect(userVars.explain("alias").cached).toBe(true);
+
+    userVars.updateVar({ ...data.explainSize, value: "2" });
+
+    const step = userVars.explain("alias");
+
+    expect(step.cached).toBe(false);
+    expect(step.value).toBe("4");
+    expect(userVars.getVar("alias")).toBe("4");
+  });
+
+  test("Cache hits for falsy values", () => {
+    userVars.setVar(data.explainBlank);
+    userVars.getVar("blank");
+
+    expect(userVars.explain("blank")).toMatchObject({
+      cached: true,
+      value: ""
+    });
+
+    userVars = new UserVars({
+      typed: true,
+      expressions: { functions: { zero: () => 0 } }
+    });
+    userVars.setVar(data.typedZero);
+    userVars.getVar("typedZero");
+
+    expect(userVars.explain("typedZero")).toMatchObject({
+      cached: true,
+      value: 0
+    });
+  });
+
+  test("Table row decisions", () => {
+    const step = userVars.explain("label");
+
+    expect(step.value).toBe("medium");
+    expect(step.steps.map((i) => [i.kind, i.detail, i.passed])).toStrictEqual([
+      ["row", "0", false],
+      ["row", "1", true]
+    ]);
+    expect(step.steps[0].steps[0]).toMatchObject({
+      kind: "condition",
+      detail: "lt",
+      passed: false
+    });
+
+    userVars.updateVar({ ...data.explainSize, value: "20" });
+
+    expect(userVars.explain("label").steps[2]).toMatchObject({
+      kind: "default",
+      value: "large"
+    });
+  });
+
+  test("List flattening and sentinels", () => {
+    userVars.setVarBulk(data.explainList, data.explainInner);
+
+    const step = userVars.explain("sizes");
+
+    expect(step.value).toStrictEqual(["4", "1", "2", "[MISSING missing]"]);
+    expect(step.steps.map((i) => i.kind)).toStrictEqual([
+      "reference",
+      "reference",
+      "flatten",
+      "reference"
+    ]);
+    expect(step.steps[2]).toMatchObject({
+      reference: "shapes.list",
+      value: ["1", "2"]
+    });
+    expect(step.steps[3].steps).toStrictEqual([
+      {
+        kind: "error",
+        detail: "MissingReferenceError",
+        error: expect.stringContaining("missing"),
+        value: "[MISSING REFERENCE]",
+        steps: []
+      }
+    ]);
+  });
+
+  test("Thrown errors are recorded", () => {
+    userVars.setVar(data.explainBroken);
+
+    const step = userVars.explain("broken");
+
+    expect(step.error).toMatch(/x \+/);
+    expect(() => userVars.getVar("broken")).toThrow(ExpressionError);
+  });
+});